@@ -0,0 +1,36 @@
+import type { App, DefineComponent } from 'vue'
+import type { CardLayout, EmbedMode, UrlMetadata } from '../types'
+
+/**
+ * The props of {@link LinkCard}, as written by the markdown plugin.
+ */
+export interface LinkCardProps {
+  data: UrlMetadata
+  href?: string
+  target?: string
+  linkTitle?: string
+  layout?: CardLayout
+  embed?: EmbedMode
+  detail?: string
+  classPrefix?: string
+}
+
+/**
+ * The card of `output: 'component'`.
+ */
+export declare const LinkCard: DefineComponent<LinkCardProps>
+
+/**
+ * Registers the card component of `output: 'component'` globally.
+ * Call it from `enhanceApp` of the VitePress theme.
+ *
+ * A component already registered under the same name is kept, so a theme can
+ * register its own card first to override this one.
+ *
+ * @param ctx - The context passed to `enhanceApp`
+ * @param name - The `componentName` option of the plugin
+ */
+export declare function enhanceAppWithLinkCard(
+  ctx: { app: App },
+  name?: string
+): void
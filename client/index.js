@@ -0,0 +1,17 @@
+import LinkCard from './LinkCard.vue'
+
+export { LinkCard }
+
+/**
+ * Registers the card component of `output: 'component'` globally.
+ * Call it from `enhanceApp` of the VitePress theme.
+ *
+ * A component already registered under the same name is kept, so a theme can
+ * register its own card first to override this one.
+ *
+ * @param {{ app: import('vue').App }} ctx - The context passed to `enhanceApp`
+ * @param {string} [name] - The `componentName` option of the plugin
+ */
+export function enhanceAppWithLinkCard({ app }, name = 'LinkCard') {
+  if (!app.component(name)) app.component(name, LinkCard)
+}
@@ -7,38 +7,56 @@ import { terser } from 'rollup-plugin-terser'
 
 /**
  * @desc Rollup 配置
- * @type {(commandLineArgs: {_: string[];[k: string]: string | number | boolean }) => import('rollup').RollupOptions}
+ * @type {(commandLineArgs: {_: string[];[k: string]: string | number | boolean }) => import('rollup').RollupOptions[]}
  */
-export default () => ({
-  input: path.resolve('src/index.ts'),
-
-  plugins: [
-    nodeResolve({ extensions: ['.ts', '.js', '.json'] }),
-    commonjs(),
-    babel({
-      babelHelpers: 'bundled',
-      extensions: ['.ts', '.js'],
-      include: ['src/**/*'],
-      exclude: ['node_modules']
-    })
-  ],
-
-  output: MODULE_FORMATES.map((format) => ({
-    file: path.resolve(`dist/${PKG_SUB_SCOPE_NAME}.${format}.min.js`),
-    name: PKG_SUB_SCOPE_NAME.toLocaleUpperCase(),
-    plugins: [
-      terser({
-        module: true,
-        format: {
-          comments: 'some'
-        }
-      })
-    ],
-    format,
-    banner,
-    inlineDynamicImports: true
-  }))
-})
+export default () => [
+  {
+    input: path.resolve('src/index.ts'),
+
+    plugins: PLUGINS(),
+
+    output: MODULE_FORMATES.map((format) => ({
+      file: path.resolve(`dist/${PKG_SUB_SCOPE_NAME}.${format}.min.js`),
+      name: PKG_SUB_SCOPE_NAME.toLocaleUpperCase(),
+      plugins: [TERSER()],
+      format,
+      banner,
+      inlineDynamicImports: true
+    }))
+  },
+  {
+    input: path.resolve('src/cli.ts'),
+
+    plugins: PLUGINS(),
+
+    output: {
+      file: path.resolve('dist/cli.js'),
+      plugins: [TERSER()],
+      format: 'esm',
+      banner: `#!/usr/bin/env node\n${banner}`,
+      inlineDynamicImports: true
+    }
+  }
+]
+
+const PLUGINS = () => [
+  nodeResolve({ extensions: ['.ts', '.js', '.json'] }),
+  commonjs(),
+  babel({
+    babelHelpers: 'bundled',
+    extensions: ['.ts', '.js'],
+    include: ['src/**/*'],
+    exclude: ['node_modules']
+  })
+]
+
+const TERSER = () =>
+  terser({
+    module: true,
+    format: {
+      comments: 'some'
+    }
+  })
 
 const MODULE_FORMATES = ['cjs', 'esm']
 
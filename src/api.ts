@@ -1,51 +1,141 @@
-import type { UrlMetadata, CardDomRenderOptions } from './types'
-import { xhr, generateCardDomFragment, parserMetadata } from './assemble'
+import type {
+  UrlMetadata,
+  CardDomRenderOptions,
+  LinkToCardPluginOptions,
+  PrefetchOptions
+} from './types'
+import {
+  LinkCardError,
+  canonicalCardUrl,
+  generateCardDomFragment,
+  mapConcurrent,
+  requestUrlMetadata
+} from './assemble'
 
-const cache = new Map<string, CardResponse>()
+/**
+ * Options of {@link fetchMetadata}. The cache options select the same store
+ * as the markdown-it plugin, so both share fetched metadata.
+ */
+export type FetchMetadataOptions = Pick<
+  LinkToCardPluginOptions,
+  'fetch' | 'cache' | 'providers' | 'oembed' | 'mode' | 'normalize'
+> & {
+  /**
+   * The language to request the page in, as with `site.locales` of the plugin.
+   */
+  lang?: string
+}
 
-interface CardResponse {
+/**
+ * Options of {@link generateCard}.
+ */
+export type GenerateCardOptions = Partial<Omit<CardDomRenderOptions, 'href'>> &
+  FetchMetadataOptions &
+  Pick<LinkToCardPluginOptions, 'linkToCanonical'>
+
+/**
+ * A generated card.
+ */
+export interface CardResponse {
   url: string
+  /**
+   * The URL the card links to; the canonical URL with `linkToCanonical`.
+   */
+  href: string
   data: UrlMetadata
   options: Omit<CardDomRenderOptions, 'href'>
   dom: string
 }
 
+/**
+ * The outcome of one URL of {@link generateCards}.
+ */
+export type CardResult =
+  | { url: string; ok: true; card: CardResponse }
+  | { url: string; ok: false; error: LinkCardError }
+
+/**
+ * Fetches the metadata of a URL, using the cache of the markdown-it plugin.
+ *
+ * @param url - The URL to fetch metadata from
+ * @param options - Fetch, cache, provider, oEmbed, mode, normalization and language options
+ * @returns A promise that resolves to the metadata
+ * @throws {@link LinkCardError} If no metadata can be obtained
+ */
+export function fetchMetadata(url: string, options: FetchMetadataOptions = {}) {
+  return requestUrlMetadata(url, options)
+}
+
 /**
  * Generates a link card by fetching and parsing metadata from a URL.
  *
  * @param url - The URL to fetch metadata from
- * @param options - Rendering options for the card
+ * @param options - Rendering, fetch, cache and provider options for the card
  * @returns A promise that resolves to a CardResponse containing the card data and HTML
+ * @throws {@link LinkCardError} If no metadata can be obtained
  */
-export function generateCard(
+export async function generateCard(
   url: string,
-  options: Omit<CardDomRenderOptions, 'href'>
+  options: GenerateCardOptions = {}
 ): Promise<CardResponse> {
-  return new Promise((resolve) => {
-    const htmlString = xhr.sync(url)
-
-    if (htmlString) {
-      const urlMetadata = parserMetadata(htmlString, url)
-      if (urlMetadata) {
-        const _options = {
-          linkTitle: options.linkTitle,
-          target: options.target || '_blank',
-          classPrefix: options.classPrefix
-        }
-        const card = generateCardDomFragment(urlMetadata, {
-          ..._options,
-          href: url
-        })
-        const response = {
-          url,
-          data: urlMetadata,
-          options: _options,
-          dom: card
-        }
-
-        cache.set(url, response)
-        resolve(response)
+  const data = await fetchMetadata(url, options)
+  const href = options.linkToCanonical
+    ? canonicalCardUrl(url, data, options)
+    : url
+  const cardOptions = {
+    linkTitle: options.linkTitle ?? '',
+    target: options.target || '_blank',
+    classPrefix: options.classPrefix,
+    layout: options.layout,
+    embed: options.embed
+  }
+
+  return {
+    url,
+    href,
+    data,
+    options: cardOptions,
+    dom: generateCardDomFragment(data, { ...cardOptions, href })
+  }
+}
+
+/**
+ * Generates link cards for several URLs concurrently. A URL that fails does
+ * not affect the others.
+ *
+ * @param urls - The URLs to fetch metadata from
+ * @param options - Concurrency, rendering, fetch, cache and provider options
+ * @returns A promise that resolves to the result of each URL, in the order of `urls`
+ *
+ * @example
+ * ```typescript
+ * const results = await generateCards(urls, { concurrency: 4 })
+ * for (const result of results) {
+ *   if (result.ok) console.log(result.card.dom)
+ *   else console.error(result.error.code, result.error.message)
+ * }
+ * ```
+ */
+export function generateCards(
+  urls: string[],
+  options: GenerateCardOptions & PrefetchOptions = {}
+) {
+  return mapConcurrent(
+    urls,
+    options.concurrency ?? 8,
+    async (url): Promise<CardResult> => {
+      try {
+        return { url, ok: true, card: await generateCard(url, options) }
+      } catch (err) {
+        const error =
+          err instanceof LinkCardError
+            ? err
+            : new LinkCardError(
+                err instanceof Error ? err.message : 'card generation failed',
+                { code: 'metadata', url, cause: err }
+              )
+        return { url, ok: false, error }
       }
     }
-  })
+  )
 }
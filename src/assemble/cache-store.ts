@@ -0,0 +1,224 @@
+import type { CacheEntry, CacheStore, UrlMetadata } from '../types'
+import { isPureObject } from '@luckrya/utility'
+import { createHash } from 'node:crypto'
+import fs from 'node:fs'
+import path from 'node:path'
+
+/**
+ * Resolves the default location of a cache file or directory: under `docs/`,
+ * or the project root if it only exists there.
+ *
+ * @param name - The name of the file or directory
+ * @returns The absolute path
+ */
+export function defaultCachePath(name: string) {
+  const defaultPath = path.resolve(process.cwd(), 'docs', name)
+  const fallbackPath = path.resolve(process.cwd(), name)
+
+  return !fs.existsSync(defaultPath) && fs.existsSync(fallbackPath)
+    ? fallbackPath
+    : defaultPath
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys)
+  if (!isPureObject(value)) return value
+
+  return Object.fromEntries(
+    Object.keys(value)
+      .sort()
+      .map((k) => [k, sortKeys(value[k])])
+  )
+}
+
+function stringify(value: unknown) {
+  return JSON.stringify(sortKeys(value), null, 2) + '\n'
+}
+
+function toCacheEntry(value: unknown): CacheEntry | undefined {
+  if (!isPureObject(value)) return undefined
+
+  // Entries written by older versions hold the metadata itself.
+  return isPureObject(value.metadata)
+    ? (value as unknown as CacheEntry)
+    : { metadata: value as UrlMetadata }
+}
+
+/**
+ * A cache store that keeps entries in memory only. Nothing survives the process.
+ */
+export class MemoryCacheStore implements CacheStore {
+  protected entries = new Map<string, CacheEntry>()
+
+  get(url: string) {
+    return this.entries.get(url)
+  }
+
+  set(url: string, entry: CacheEntry) {
+    this.entries.set(url, entry)
+  }
+
+  delete(url: string) {
+    this.entries.delete(url)
+  }
+
+  keys() {
+    return [...this.entries.keys()]
+  }
+
+  flush() {}
+}
+
+/**
+ * A cache store that keeps every entry in a single JSON file.
+ *
+ * The file is read once on first access and written back by {@link flush},
+ * with keys sorted so that diffs stay small.
+ */
+export class FileCacheStore extends MemoryCacheStore {
+  readonly filePath: string
+  private loaded = false
+  private dirty = false
+
+  /**
+   * @param filePath - Path of the JSON file. Defaults to `docs/.linkcard_cache.json`,
+   *   or `./.linkcard_cache.json` if only that one exists.
+   */
+  constructor(filePath = defaultCachePath('.linkcard_cache.json')) {
+    super()
+    this.filePath = path.resolve(filePath)
+  }
+
+  private load() {
+    if (this.loaded) return
+    this.loaded = true
+    if (!fs.existsSync(this.filePath)) return
+
+    const content = fs.readFileSync(this.filePath, 'utf-8').trim()
+    const data = content ? JSON.parse(content) : {}
+    if (!isPureObject(data)) return
+
+    for (const [url, value] of Object.entries(data)) {
+      const entry = toCacheEntry(value)
+      if (entry) this.entries.set(url, entry)
+    }
+  }
+
+  get(url: string) {
+    this.load()
+    return super.get(url)
+  }
+
+  set(url: string, entry: CacheEntry) {
+    this.load()
+    super.set(url, entry)
+    this.dirty = true
+  }
+
+  delete(url: string) {
+    this.load()
+    if (this.entries.has(url)) this.dirty = true
+    super.delete(url)
+  }
+
+  keys() {
+    this.load()
+    return super.keys()
+  }
+
+  flush() {
+    if (!this.dirty) return
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+    fs.writeFileSync(this.filePath, stringify(Object.fromEntries(this.entries)))
+    this.dirty = false
+  }
+}
+
+/**
+ * A cache store that keeps each entry in its own JSON file inside a directory.
+ *
+ * Files are named after the host and a hash of the URL, so concurrent changes
+ * to different URLs never touch the same file.
+ */
+export class DirectoryCacheStore extends MemoryCacheStore {
+  readonly dirPath: string
+  private loaded = false
+  private changed = new Set<string>()
+
+  /**
+   * @param dirPath - Path of the directory. Defaults to `docs/.linkcard_cache/`,
+   *   or `./.linkcard_cache/` if only that one exists.
+   */
+  constructor(dirPath = defaultCachePath('.linkcard_cache')) {
+    super()
+    this.dirPath = path.resolve(dirPath)
+  }
+
+  private fileName(url: string) {
+    let host = 'unknown'
+    try {
+      host = new URL(url).host.replace(/[^a-zA-Z0-9.-]/g, '_')
+    } catch {
+      // Keys are not required to be valid URLs.
+    }
+    const hash = createHash('sha1').update(url).digest('hex').slice(0, 12)
+
+    return path.join(this.dirPath, `${host}-${hash}.json`)
+  }
+
+  private load() {
+    if (this.loaded) return
+    this.loaded = true
+    if (!fs.existsSync(this.dirPath)) return
+
+    for (const name of fs.readdirSync(this.dirPath)) {
+      if (!name.endsWith('.json')) continue
+
+      const data = JSON.parse(
+        fs.readFileSync(path.join(this.dirPath, name), 'utf-8')
+      )
+      if (!isPureObject(data) || typeof data.url !== 'string') continue
+
+      const { url, ...value } = data
+      const entry = toCacheEntry(value)
+      if (entry) this.entries.set(url, entry)
+    }
+  }
+
+  get(url: string) {
+    this.load()
+    return super.get(url)
+  }
+
+  set(url: string, entry: CacheEntry) {
+    this.load()
+    super.set(url, entry)
+    this.changed.add(url)
+  }
+
+  delete(url: string) {
+    this.load()
+    super.delete(url)
+    this.changed.add(url)
+  }
+
+  keys() {
+    this.load()
+    return super.keys()
+  }
+
+  flush() {
+    if (!this.changed.size) return
+
+    fs.mkdirSync(this.dirPath, { recursive: true })
+    for (const url of this.changed) {
+      const filePath = this.fileName(url)
+      const entry = this.entries.get(url)
+
+      if (entry) fs.writeFileSync(filePath, stringify({ url, ...entry }))
+      else fs.rmSync(filePath, { force: true })
+    }
+    this.changed.clear()
+  }
+}
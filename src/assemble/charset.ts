@@ -0,0 +1,77 @@
+import { tokenizeHtml } from './html-tokenizer'
+
+/**
+ * Number of leading bytes searched for `<meta charset>`.
+ * The HTML standard prescans 1024 bytes; some pages put a long comment first.
+ */
+const PRESCAN_BYTES = 4096
+
+const BOMS: Array<[number[], string]> = [
+  [[0xef, 0xbb, 0xbf], 'utf-8'],
+  [[0xfe, 0xff], 'utf-16be'],
+  [[0xff, 0xfe], 'utf-16le']
+]
+
+const CharsetParamReg = /charset\s*=\s*["']?([^\s"';]+)/i
+
+function bomEncoding(bytes: Uint8Array) {
+  return BOMS.find(([bom]) => bom.every((b, i) => bytes[i] === b))?.[1]
+}
+
+function metaEncoding(bytes: Uint8Array) {
+  const head = Buffer.from(bytes.subarray(0, PRESCAN_BYTES)).toString('latin1')
+
+  for (const token of tokenizeHtml(head)) {
+    if (token.type !== 'start') continue
+    if (token.name === 'body') break
+    if (token.name !== 'meta') continue
+
+    const { charset, content } = token.attrs
+    if (charset) return charset.trim()
+    if (token.attrs['http-equiv']?.toLowerCase() === 'content-type') {
+      const match = content?.match(CharsetParamReg)
+      if (match) return match[1]
+    }
+  }
+  return undefined
+}
+
+function createDecoder(label?: string) {
+  if (!label) return undefined
+  try {
+    const decoder = new TextDecoder(label.trim())
+    // A document cannot declare itself UTF-16 from inside; browsers use UTF-8.
+    return decoder.encoding.startsWith('utf-16')
+      ? new TextDecoder('utf-8')
+      : decoder
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Decodes an HTML response body with the encoding it was served in.
+ *
+ * The encoding is taken from, in order: a byte order mark, the `charset`
+ * parameter of the `Content-Type` header, and `<meta charset>` or
+ * `<meta http-equiv="Content-Type">` in the first bytes of the document.
+ * UTF-8 is used when none of them is present or recognized.
+ *
+ * @param bytes - The raw response body
+ * @param contentType - The `Content-Type` response header
+ * @returns The decoded text and the WHATWG name of the encoding used
+ */
+export function decodeHtml(bytes: Uint8Array, contentType?: string) {
+  const bom = bomEncoding(bytes)
+  const decoder =
+    (bom && new TextDecoder(bom)) ||
+    createDecoder(contentType?.match(CharsetParamReg)?.[1]) ||
+    createDecoder(metaEncoding(bytes)) ||
+    new TextDecoder('utf-8')
+
+  return {
+    // TextDecoder strips the BOM by itself.
+    text: decoder.decode(bytes),
+    encoding: decoder.encoding
+  }
+}
@@ -0,0 +1,77 @@
+import type { CardDomRenderOptions, UrlMetadata } from '../types'
+import { escapeAttr, sanitizeUrl } from './escape'
+import { sanitizeEmbedHtml } from './oembed'
+import { structuredDataDetail } from './structured-data'
+
+const URL_KEYS = ['logo', 'image', 'favicon', 'canonicalUrl'] as const
+
+/**
+ * Prepares card metadata to be passed to the card component as a prop.
+ *
+ * The component binds URLs and renders the embed HTML as they are, so every
+ * URL is checked with {@link sanitizeUrl} and the embed HTML is reduced with
+ * {@link sanitizeEmbedHtml} here, at build time.
+ *
+ * @param data - The card metadata
+ * @param classPrefix - The class name prefix of the embedded iframe
+ * @returns The metadata to serialize
+ */
+export function componentData(
+  data: UrlMetadata,
+  classPrefix = 'vitepress-linkcard'
+): UrlMetadata {
+  const safe: UrlMetadata = { ...data }
+  // Only used while fetching.
+  delete safe.encoding
+  delete safe.oembedUrl
+
+  URL_KEYS.forEach((key) => {
+    if (safe[key] !== undefined) safe[key] = sanitizeUrl(safe[key])
+  })
+
+  if (data.oembed) {
+    safe.oembed = {
+      ...data.oembed,
+      html:
+        data.oembed.html &&
+        sanitizeEmbedHtml(
+          data.oembed.html,
+          `class="${escapeAttr(classPrefix)}__embed--frame"`
+        ),
+      thumbnail_url: sanitizeUrl(data.oembed.thumbnail_url)
+    }
+  }
+
+  return safe
+}
+
+/**
+ * Generates a tag of the card component for VitePress to compile with the page,
+ * with the metadata as the `data` prop and the render options as the other props.
+ *
+ * @param data - The metadata extracted from the URL
+ * @param options - Rendering options including href, target, etc.
+ * @param name - The name the component is registered with
+ * @returns The component tag
+ */
+export function generateCardComponent(
+  data: UrlMetadata,
+  options: CardDomRenderOptions,
+  name = 'LinkCard'
+) {
+  const props = [
+    `:data="${escapeAttr(JSON.stringify(componentData(data, options.classPrefix)))}"`,
+    `href="${escapeAttr(sanitizeUrl(options.href) ?? '')}"`,
+    `target="${escapeAttr(options.target)}"`,
+    `link-title="${escapeAttr(options.linkTitle)}"`,
+    `layout="${escapeAttr(options.layout ?? 'default')}"`,
+    `embed="${escapeAttr(options.embed ?? 'card')}"`
+  ]
+  const detail = structuredDataDetail(data.structuredData)
+  if (detail) props.push(`detail="${escapeAttr(detail)}"`)
+  if (options.classPrefix) {
+    props.push(`class-prefix="${escapeAttr(options.classPrefix)}"`)
+  }
+
+  return `<${name} ${props.join(' ')} />`
+}
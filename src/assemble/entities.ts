@@ -0,0 +1,178 @@
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00a0',
+  ensp: '\u2002',
+  emsp: '\u2003',
+  thinsp: '\u2009',
+  shy: '\u00ad',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  hellip: '…',
+  mdash: '—',
+  ndash: '–',
+  minus: '−',
+  lsquo: '‘',
+  rsquo: '’',
+  sbquo: '‚',
+  ldquo: '“',
+  rdquo: '”',
+  bdquo: '„',
+  laquo: '«',
+  raquo: '»',
+  lsaquo: '‹',
+  rsaquo: '›',
+  middot: '·',
+  bull: '•',
+  times: '×',
+  divide: '÷',
+  plusmn: '±',
+  deg: '°',
+  micro: 'µ',
+  para: '¶',
+  sect: '§',
+  cent: '¢',
+  pound: '£',
+  yen: '¥',
+  euro: '€',
+  iexcl: '¡',
+  iquest: '¿',
+  dagger: '†',
+  Dagger: '‡',
+  larr: '←',
+  rarr: '→',
+  uarr: '↑',
+  darr: '↓',
+  harr: '↔',
+  hearts: '♥',
+  star: '☆',
+  check: '✓',
+  Agrave: 'À',
+  Aacute: 'Á',
+  Acirc: 'Â',
+  Atilde: 'Ã',
+  Auml: 'Ä',
+  Aring: 'Å',
+  AElig: 'Æ',
+  Ccedil: 'Ç',
+  Egrave: 'È',
+  Eacute: 'É',
+  Ecirc: 'Ê',
+  Euml: 'Ë',
+  Igrave: 'Ì',
+  Iacute: 'Í',
+  Icirc: 'Î',
+  Iuml: 'Ï',
+  Ntilde: 'Ñ',
+  Ograve: 'Ò',
+  Oacute: 'Ó',
+  Ocirc: 'Ô',
+  Otilde: 'Õ',
+  Ouml: 'Ö',
+  Oslash: 'Ø',
+  Ugrave: 'Ù',
+  Uacute: 'Ú',
+  Ucirc: 'Û',
+  Uuml: 'Ü',
+  Yacute: 'Ý',
+  szlig: 'ß',
+  agrave: 'à',
+  aacute: 'á',
+  acirc: 'â',
+  atilde: 'ã',
+  auml: 'ä',
+  aring: 'å',
+  aelig: 'æ',
+  ccedil: 'ç',
+  egrave: 'è',
+  eacute: 'é',
+  ecirc: 'ê',
+  euml: 'ë',
+  igrave: 'ì',
+  iacute: 'í',
+  icirc: 'î',
+  iuml: 'ï',
+  ntilde: 'ñ',
+  ograve: 'ò',
+  oacute: 'ó',
+  ocirc: 'ô',
+  otilde: 'õ',
+  ouml: 'ö',
+  oslash: 'ø',
+  ugrave: 'ù',
+  uacute: 'ú',
+  ucirc: 'û',
+  uuml: 'ü',
+  yacute: 'ý',
+  yuml: 'ÿ'
+}
+
+const EntityReg = /&(?:#(\d+)|#[xX]([0-9a-fA-F]+)|([a-zA-Z][a-zA-Z0-9]*))(;?)/g
+
+// Code points that HTML maps to windows-1252 characters in numeric references.
+const WINDOWS_1252: Record<number, number> = {
+  0x80: 0x20ac,
+  0x82: 0x201a,
+  0x83: 0x0192,
+  0x84: 0x201e,
+  0x85: 0x2026,
+  0x86: 0x2020,
+  0x87: 0x2021,
+  0x88: 0x02c6,
+  0x89: 0x2030,
+  0x8a: 0x0160,
+  0x8b: 0x2039,
+  0x8c: 0x0152,
+  0x8e: 0x017d,
+  0x91: 0x2018,
+  0x92: 0x2019,
+  0x93: 0x201c,
+  0x94: 0x201d,
+  0x95: 0x2022,
+  0x96: 0x2013,
+  0x97: 0x2014,
+  0x98: 0x02dc,
+  0x99: 0x2122,
+  0x9a: 0x0161,
+  0x9b: 0x203a,
+  0x9c: 0x0153,
+  0x9e: 0x017e,
+  0x9f: 0x0178
+}
+
+function fromCodePoint(codePoint: number) {
+  if (codePoint === 0 || codePoint > 0x10ffff) return '�'
+  if (codePoint >= 0xd800 && codePoint <= 0xdfff) return '�'
+
+  return String.fromCodePoint(WINDOWS_1252[codePoint] ?? codePoint)
+}
+
+/**
+ * Decodes HTML character references: decimal, hexadecimal and common named ones.
+ * Unknown named references are left as they are.
+ *
+ * As in browsers, a named reference without a semicolon followed by `=` is not
+ * decoded in attribute values, so that URLs such as `?a=1&copy=2` stay intact.
+ *
+ * @param str - The string to decode
+ * @param inAttribute - Whether the string is an attribute value
+ * @returns The decoded string
+ */
+export function decodeEntities(str: string, inAttribute = false) {
+  return str.replace(
+    EntityReg,
+    (match, dec, hex, name, semicolon, offset: number) => {
+      if (dec) return fromCodePoint(parseInt(dec, 10))
+      if (hex) return fromCodePoint(parseInt(hex, 16))
+      if (inAttribute && !semicolon && str[offset + match.length] === '=') {
+        return match
+      }
+
+      return NAMED_ENTITIES[name] ?? match
+    }
+  )
+}
@@ -0,0 +1,49 @@
+import type { LinkCardErrorCode } from '../types'
+
+/**
+ * The error the programmatic API rejects with when no metadata can be
+ * obtained for a URL.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await fetchMetadata(url)
+ * } catch (err) {
+ *   if (err instanceof LinkCardError && err.code === 'http') {
+ *     console.log(err.status)
+ *   }
+ * }
+ * ```
+ */
+export class LinkCardError extends Error {
+  /**
+   * Why no metadata could be obtained.
+   */
+  readonly code: LinkCardErrorCode
+
+  /**
+   * The URL of the card.
+   */
+  readonly url: string
+
+  /**
+   * The HTTP status, for `'http'` errors.
+   */
+  readonly status?: number
+
+  constructor(
+    message: string,
+    options: {
+      code: LinkCardErrorCode
+      url: string
+      status?: number
+      cause?: unknown
+    }
+  ) {
+    super(`${options.url}: ${message}`, { cause: options.cause })
+    this.name = 'LinkCardError'
+    this.code = options.code
+    this.url = options.url
+    this.status = options.status
+  }
+}
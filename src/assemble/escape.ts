@@ -0,0 +1,70 @@
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;'
+}
+
+/**
+ * The URL schemes allowed in card links and images by default.
+ */
+export const SAFE_URL_SCHEMES = ['http:', 'https:']
+
+const SchemeReg = /^([a-zA-Z][a-zA-Z0-9+.-]*):/
+
+// Browsers ignore control characters and spaces when they read a URL scheme.
+function stripIgnoredChars(url: string) {
+  return [...url].filter((char) => char > ' ' && char !== '\u007f').join('')
+}
+
+/**
+ * Escapes a string for use as text content in HTML.
+ *
+ * @param str - The string to escape
+ * @returns The escaped string
+ */
+export function escapeHtml(str: string) {
+  return str.replace(/[&<>]/g, (char) => HTML_ESCAPES[char])
+}
+
+/**
+ * Escapes a string for use as a quoted HTML attribute value.
+ *
+ * @param str - The string to escape
+ * @returns The escaped string
+ */
+export function escapeAttr(str: string) {
+  return str.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char])
+}
+
+/**
+ * Checks a URL against an allowlist of schemes.
+ * Relative URLs have no scheme and are always allowed.
+ *
+ * The result still has to be escaped with {@link escapeAttr} when it is put
+ * in an attribute.
+ *
+ * @param url - The URL to check
+ * @param schemes - The allowed schemes, with the trailing colon
+ * @returns The trimmed URL, or undefined if it is empty or its scheme is not allowed
+ *
+ * @example
+ * ```typescript
+ * sanitizeUrl('https://example.com') // 'https://example.com'
+ * sanitizeUrl('/guide/') // '/guide/'
+ * sanitizeUrl('javascript:alert(1)') // undefined
+ * ```
+ */
+export function sanitizeUrl(
+  url: string | undefined,
+  schemes: string[] = SAFE_URL_SCHEMES
+) {
+  const trimmed = url?.trim()
+  if (!trimmed) return undefined
+
+  const scheme = stripIgnoredChars(trimmed).match(SchemeReg)?.[1]
+  if (!scheme) return trimmed
+
+  return schemes.includes(`${scheme.toLowerCase()}:`) ? trimmed : undefined
+}
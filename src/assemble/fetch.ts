@@ -0,0 +1,279 @@
+import http from 'node:http'
+import https from 'node:https'
+import {
+  MessageChannel,
+  Worker,
+  isMainThread,
+  receiveMessageOnPort,
+  workerData
+} from 'node:worker_threads'
+import type { FetchOptions, FetchResult } from '../types'
+import { decodeHtml } from './charset'
+
+const DEFAULT_OPTIONS: Required<FetchOptions> = {
+  timeout: 10_000,
+  retries: 2,
+  retryDelay: 500,
+  maxResponseSize: 5 * 1024 * 1024,
+  maxRedirects: 5,
+  userAgent:
+    'Mozilla/5.0 (compatible; vitepress-linkcard; +https://github.com/asumo-1xts/vitepress-linkcard)',
+  headers: {}
+}
+
+const REDIRECT_STATUS = [301, 302, 303, 307, 308]
+
+const WORKER_FLAG = '__vitepressLinkcardFetch'
+
+function resolveOptions(options: FetchOptions = {}): Required<FetchOptions> {
+  return {
+    ...DEFAULT_OPTIONS,
+    ...Object.fromEntries(
+      Object.entries(options).filter(([, v]) => v !== undefined)
+    )
+  }
+}
+
+function isRetryable(status: number) {
+  return status === 408 || status === 429 || status >= 500
+}
+
+// An error that another attempt would run into again, so it is not retried.
+class PermanentFetchError extends Error {}
+
+function parseUrl(url: string, base?: URL) {
+  try {
+    return new URL(url, base)
+  } catch {
+    throw new PermanentFetchError(`invalid URL (${url})`)
+  }
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+function request(
+  url: string,
+  options: Required<FetchOptions>,
+  redirects: string[] = []
+): Promise<FetchResult> {
+  return new Promise((_resolve, _reject) => {
+    // The `timeout` of `http.get` only limits idle time between packets;
+    // this timer limits the whole response, for servers that trickle it.
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const resolve = (result: FetchResult | Promise<FetchResult>) => {
+      clearTimeout(timer)
+      _resolve(result)
+    }
+    const reject = (err: unknown) => {
+      clearTimeout(timer)
+      _reject(err)
+    }
+    const target = parseUrl(url)
+
+    if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+      return reject(
+        new PermanentFetchError(`unsupported protocol "${target.protocol}"`)
+      )
+    }
+
+    const client = target.protocol === 'http:' ? http : https
+
+    const req = client.get(
+      target,
+      {
+        headers: {
+          'user-agent': options.userAgent,
+          accept: 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.8',
+          ...options.headers
+        },
+        timeout: options.timeout
+      },
+      (res) => {
+        const status = res.statusCode || 0
+        const location = res.headers.location
+
+        if (REDIRECT_STATUS.includes(status) && location) {
+          res.resume()
+          if (redirects.length >= options.maxRedirects) {
+            return reject(
+              new PermanentFetchError(`too many redirects (${url})`)
+            )
+          }
+          try {
+            const next = parseUrl(location, target).href
+            return resolve(request(next, options, [...redirects, url]))
+          } catch (err) {
+            return reject(err)
+          }
+        }
+
+        const length = Number(res.headers['content-length'])
+        if (length > options.maxResponseSize) {
+          res.destroy()
+          return reject(
+            new PermanentFetchError(
+              `response exceeds ${options.maxResponseSize} bytes`
+            )
+          )
+        }
+
+        const chunks: Buffer[] = []
+        let received = 0
+
+        res.on('data', (chunk: Buffer) => {
+          received += chunk.length
+          if (received > options.maxResponseSize) {
+            res.destroy(
+              new PermanentFetchError(
+                `response exceeds ${options.maxResponseSize} bytes`
+              )
+            )
+            return
+          }
+          chunks.push(chunk)
+        })
+        res.on('error', reject)
+        res.on('end', () => {
+          const headers: Record<string, string> = {}
+          for (const [k, v] of Object.entries(res.headers)) {
+            if (v !== undefined)
+              headers[k] = Array.isArray(v) ? v.join(', ') : v
+          }
+          const bytes = new Uint8Array(Buffer.concat(chunks))
+          const { text, encoding } = decodeHtml(bytes, headers['content-type'])
+          resolve({
+            url,
+            status,
+            headers,
+            body: text,
+            bytes,
+            encoding,
+            redirects
+          })
+        })
+      }
+    )
+
+    timer = setTimeout(() => {
+      const error = new Error(`timed out after ${options.timeout}ms`)
+      req.destroy(error)
+      reject(error)
+    }, options.timeout)
+    req.on('timeout', () => {
+      req.destroy(new Error(`timed out after ${options.timeout}ms`))
+    })
+    req.on('error', reject)
+  })
+}
+
+/**
+ * Performs an HTTP GET request with timeout, retry with exponential backoff,
+ * a response size limit and redirect following.
+ *
+ * @param url - The URL to fetch
+ * @param options - Fetch options, merged over the defaults
+ * @returns A promise that resolves to the final response, whatever its status
+ */
+export async function fetchRemote(
+  url: string,
+  options?: FetchOptions
+): Promise<FetchResult> {
+  const _options = resolveOptions(options)
+  let lastError: unknown
+
+  for (let attempt = 0; attempt <= _options.retries; attempt++) {
+    if (attempt > 0) await sleep(_options.retryDelay * 2 ** (attempt - 1))
+
+    try {
+      const result = await request(url, _options)
+      if (!isRetryable(result.status) || attempt === _options.retries) {
+        return result
+      }
+      lastError = new Error(`HTTP ${result.status}`)
+    } catch (err) {
+      if (err instanceof PermanentFetchError) throw err
+      lastError = err
+    }
+  }
+
+  throw lastError
+}
+
+/**
+ * Synchronous variant of {@link fetchRemote} for use inside markdown-it rules.
+ *
+ * The request runs in a worker thread while the calling thread blocks on
+ * `Atomics.wait`, so the event loop of the build is never re-entered.
+ *
+ * @param url - The URL to fetch
+ * @param options - Fetch options, merged over the defaults
+ * @returns The final response, whatever its status
+ */
+export function fetchRemoteSync(url: string, options?: FetchOptions) {
+  const _options = resolveOptions(options)
+  const signal = new Int32Array(new SharedArrayBuffer(4))
+  const { port1, port2 } = new MessageChannel()
+  const worker = new Worker(new URL(import.meta.url), {
+    workerData: {
+      [WORKER_FLAG]: true,
+      url,
+      options: _options,
+      signal,
+      port: port2
+    },
+    transferList: [port2]
+  })
+
+  // Worst case: every attempt times out, plus the backoff between attempts.
+  const attempts = _options.retries + 1
+  const deadline =
+    attempts * _options.timeout * (_options.maxRedirects + 1) +
+    _options.retryDelay * 2 ** attempts +
+    5_000
+
+  try {
+    Atomics.wait(signal, 0, 0, deadline)
+    const message = receiveMessageOnPort(port1)?.message as
+      | { result: FetchResult }
+      | { error: string }
+      | undefined
+
+    if (!message) throw new Error(`no response within ${deadline}ms`)
+    if ('error' in message) throw new Error(message.error)
+    return message.result
+  } finally {
+    port1.close()
+    void worker.terminate()
+  }
+}
+
+/**
+ * Logs a failed request to the console.
+ *
+ * @param url - The URL that was requested
+ * @param err - The error the request failed with
+ */
+export function logFetchError(url: string, err: unknown) {
+  console.error(
+    `【Fetch Error】：${url}: ${err instanceof Error ? err.message : 'get remote URL resource exception!'}`
+  )
+}
+
+if (!isMainThread && workerData?.[WORKER_FLAG]) {
+  const { url, options, signal, port } = workerData
+
+  fetchRemote(url, options)
+    .then(
+      (result) => port.postMessage({ result }),
+      (err) =>
+        port.postMessage({
+          error: err instanceof Error ? err.message : String(err)
+        })
+    )
+    .finally(() => {
+      Atomics.store(signal, 0, 1)
+      Atomics.notify(signal, 0)
+    })
+}
@@ -0,0 +1,144 @@
+import { decodeEntities } from './entities'
+
+/**
+ * A token produced by {@link tokenizeHtml}.
+ */
+export type HtmlToken =
+  | {
+      type: 'start'
+      /** Lower-cased tag name. */
+      name: string
+      /** Attributes with lower-cased names and decoded values. The first occurrence wins. */
+      attrs: Record<string, string>
+      selfClosing: boolean
+    }
+  | { type: 'end'; name: string }
+  | { type: 'text'; text: string }
+
+// Elements whose content is not markup. Only RCDATA elements decode entities.
+const RAW_TEXT_ELEMENTS = ['script', 'style']
+const RCDATA_ELEMENTS = ['title', 'textarea']
+
+const TagNameReg = /[a-zA-Z][^\s/>]*/y
+const EndTagReg = /<\/([a-zA-Z][^\s/>]*)[^>]*>/y
+const AttrNameReg = /[^\s"'>/=]+/y
+const UnquotedValueReg = /[^\s>]+/y
+const WhitespaceReg = /[\s/]*/y
+
+function matchAt(reg: RegExp, str: string, index: number) {
+  reg.lastIndex = index
+  return reg.exec(str)
+}
+
+/**
+ * Splits an HTML string into start tags, end tags and text.
+ *
+ * It is tolerant in the way browsers are: attributes may be in any order,
+ * quoted or unquoted and span several lines, comments and doctypes are skipped,
+ * and anything that does not look like a tag is treated as text.
+ * It does not build a tree.
+ *
+ * @param html - The HTML string
+ * @returns A generator of tokens in document order
+ */
+export function* tokenizeHtml(html: string): Generator<HtmlToken> {
+  let pos = 0
+
+  while (pos < html.length) {
+    const lt = html.indexOf('<', pos)
+    const textEnd = lt === -1 ? html.length : lt
+
+    if (textEnd > pos) {
+      yield { type: 'text', text: decodeEntities(html.slice(pos, textEnd)) }
+      pos = textEnd
+      continue
+    }
+
+    if (html.startsWith('<!--', pos)) {
+      const end = html.indexOf('-->', pos + 4)
+      pos = end === -1 ? html.length : end + 3
+      continue
+    }
+
+    if (html[pos + 1] === '!' || html[pos + 1] === '?') {
+      const end = html.indexOf('>', pos)
+      pos = end === -1 ? html.length : end + 1
+      continue
+    }
+
+    if (html[pos + 1] === '/') {
+      const match = matchAt(EndTagReg, html, pos)
+      if (match) {
+        yield { type: 'end', name: match[1].toLowerCase() }
+        pos = EndTagReg.lastIndex
+        continue
+      }
+    }
+
+    const nameMatch = matchAt(TagNameReg, html, pos + 1)
+    if (!nameMatch) {
+      yield { type: 'text', text: '<' }
+      pos++
+      continue
+    }
+
+    const name = nameMatch[0].toLowerCase()
+    const attrs: Record<string, string> = {}
+    let selfClosing = false
+    let i = TagNameReg.lastIndex
+
+    while (i < html.length) {
+      const whitespace = matchAt(WhitespaceReg, html, i)
+      const skipped = whitespace?.[0] ?? ''
+      i += skipped.length
+
+      if (html[i] === '>') {
+        selfClosing = skipped.endsWith('/')
+        i++
+        break
+      }
+
+      const attrName = matchAt(AttrNameReg, html, i)
+      if (!attrName) break
+      i = AttrNameReg.lastIndex
+
+      let value = ''
+      let j = i
+      while (/\s/.test(html[j] ?? '')) j++
+
+      if (html[j] === '=') {
+        j++
+        while (/\s/.test(html[j] ?? '')) j++
+        const quote = html[j]
+
+        if (quote === '"' || quote === "'") {
+          const end = html.indexOf(quote, j + 1)
+          value = html.slice(j + 1, end === -1 ? html.length : end)
+          i = end === -1 ? html.length : end + 1
+        } else {
+          const unquoted = matchAt(UnquotedValueReg, html, j)
+          value = unquoted?.[0] ?? ''
+          i = j + value.length
+        }
+      }
+
+      const key = attrName[0].toLowerCase()
+      if (!(key in attrs)) attrs[key] = decodeEntities(value, true)
+    }
+
+    yield { type: 'start', name, attrs, selfClosing }
+    pos = i
+
+    const isRawText = RAW_TEXT_ELEMENTS.includes(name)
+    if (!selfClosing && (isRawText || RCDATA_ELEMENTS.includes(name))) {
+      const closeReg = new RegExp(`</${name}[\\s/>]`, 'gi')
+      closeReg.lastIndex = pos
+      const end = closeReg.exec(html)?.index ?? html.length
+      const text = html.slice(pos, end)
+
+      if (text)
+        yield { type: 'text', text: isRawText ? text : decodeEntities(text) }
+      pos = end
+    }
+  }
+}
@@ -1,69 +1,149 @@
 import type { CardDomRender } from '../types'
-import { STYLE } from './style'
+import { escapeAttr, escapeHtml, sanitizeUrl } from './escape'
+import { sanitizeEmbedHtml } from './oembed'
+import { structuredDataDetail } from './structured-data'
+import { blockAttrs, classNames, STYLE } from './style'
 
 /**
  * Generates the HTML DOM fragment for a link card display.
  *
+ * The card is marked `v-pre`, since VitePress compiles markdown output as a
+ * Vue template and remote text such as `{{ … }}` must not be evaluated.
+ *
  * @param data - The metadata extracted from the URL
  * @param options - Rendering options including href, target, etc.
  * @returns An HTML string containing the card markup
  */
 export const generateCardDomFragment: CardDomRender = (data, options) => {
+  const href = sanitizeUrl(options.href)
   const aa = {
     rel: `rel="noopener noreferrer"`,
-    target: `target="${options.target}"`,
-    href: `href="${options.href}"`,
-    title: `title="${options.linkTitle}"`
+    target: `target="${escapeAttr(options.target)}"`,
+    href: href ? `href="${escapeAttr(href)}"` : '',
+    title: `title="${escapeAttr(options.linkTitle)}"`
+  }
+  const layout = options.layout ?? 'default'
+  const style = STYLE(layout)
+  const classes = options.classPrefix
+    ? classNames(options.classPrefix, layout)
+    : undefined
+  const inject = (
+    key: Exclude<keyof ReturnType<typeof classNames>, 'embed'>
+  ) => {
+    return classes ? `class="${escapeAttr(classes[key])}"` : style[key]
   }
-  const inject = (s: string) => {
-    return s
+  const oembed = data.oembed
+
+  if (options.embed === 'embed' && oembed?.html) {
+    const embedHtml = sanitizeEmbedHtml(oembed.html, inject('embedFrame'))
+    if (embedHtml) {
+      const width = Number(oembed.width)
+      const height = Number(oembed.height)
+      const aspectRatio =
+        width > 0 && height > 0 ? `${width} / ${height}` : '16 / 9'
+      const embedAttr = classes
+        ? `class="${escapeAttr(classes.embed)}" style="--vitepress-linkcard-aspect-ratio: ${aspectRatio};"`
+        : style.embed(aspectRatio)
+      return `<span v-pre ${embedAttr}>${embedHtml}</span>`
+    }
   }
-  const escapeHTML = (str: string) =>
-    str
-      .replace(/&amp;/g, '&')
-      .replace(/&lt;/g, '<')
-      .replace(/&gt;/g, '>')
-      .replace(/&quot;/g, '"')
-      .replace(/&#039;/g, "'")
-  const style = STYLE()
-  const url = options.href || ''
+
+  const url = href || ''
   const domain =
-    new URL(url).origin.replace(/^https?:\/\//, '').replace(/^www\./, '') ||
-    'Unknown domain'
+    (URL.canParse(url) ? new URL(url).origin : '')
+      .replace(/^https?:\/\//, '')
+      .replace(/^www\./, '') || 'Unknown domain'
+  const siteName = data.siteName || domain
+  const image = sanitizeUrl(data.image || data.logo)
+  const imageAlt = escapeAttr(data.imageAlt ?? '')
+  const size = (width?: number, height?: number) =>
+    Number(width) > 0 && Number(height) > 0
+      ? `width="${Number(width)}" height="${Number(height)}" `
+      : ''
+  const faviconUrl = sanitizeUrl(data.favicon)
+  const favicon = faviconUrl
+    ? `<img src="${escapeAttr(faviconUrl)}" alt="" ${inject('favicon')}/>`
+    : ''
 
-  let title = data.title
-  let description = data.description
+  const thumbnailUrl =
+    options.embed === 'thumbnail'
+      ? sanitizeUrl(oembed?.thumbnail_url)
+      : undefined
+  const thumbnail = thumbnailUrl
+    ? `<span ${inject('thumbnail')}>
+        <img src="${escapeAttr(thumbnailUrl)}" alt="${imageAlt}" ${size(oembed?.thumbnail_width, oembed?.thumbnail_height)}loading="lazy" decoding="async" ${inject('thumbnailImg')}/>
+        <span aria-hidden="true" ${inject('play')}>▶</span>
+      </span>`
+    : undefined
 
-  if (domain == 'github.com') {
-    title = data.title?.split(':')[0].replace('GitHub - ', '') || 'No title'
-    description =
-      description
-        ?.replace(` - ${title}`, '')
-        .replace(
-          `Contribute to ${title} development by creating an account on GitHub.`,
-          ''
-        ) || ''
-  } else {
-    title = data.title || 'No title'
-    description = data.description || ''
-  }
+  const title = data.title || 'No title'
+  const description = data.description || ''
+  const detail = structuredDataDetail(data.structuredData)
+  const media =
+    thumbnail ??
+    (image
+      ? `<img src="${escapeAttr(image)}" alt="${imageAlt}" ${size(data.imageWidth, data.imageHeight)}loading="lazy" decoding="async" ${inject('img')}/>`
+      : '')
 
-  return `<span style="display:block;">
-  <a ${aa.rel} ${aa.target} ${aa.href} ${aa.title} ${style.a}>
-    <span class="vitepress-linkcard-container" ${inject(style.container)}>
-      <span ${inject(style.texts)}>
-        <span ${inject(style.title)}>
-          ${escapeHTML(title)}
+  const texts =
+    layout === 'compact'
+      ? `<span ${inject('texts')}>
+        <span ${inject('title')}>
+          ${favicon}${escapeHtml(title)}
         </span>
-        <span ${inject(style.domain)}>
-          ${escapeHTML(domain)}
+      </span>`
+      : `<span ${inject('texts')}>
+        <span ${inject('title')}>
+          ${escapeHtml(title)}
         </span>
-        <span ${inject(style.description)}>
-          ${escapeHTML(description)}
+        <span ${inject('domain')}>
+          ${favicon}${escapeHtml(siteName)}
+        </span>${
+          detail
+            ? `
+        <span ${inject('detail')}>
+          ${escapeHtml(detail)}
+        </span>`
+            : ''
+        }
+        <span ${inject(detail ? 'descriptionShort' : 'description')}>
+          ${escapeHtml(description)}
         </span>
-      </span>
-      <img src="${data?.logo}" ${inject(style.img)}/>
+      </span>`
+
+  const content =
+    layout === 'large'
+      ? `${media}
+      ${texts}`
+      : layout === 'default'
+        ? `${texts}
+      ${media}`
+        : texts
+
+  return `<span v-pre ${inject('wrapper')}>
+  <a ${aa.rel} ${aa.target} ${aa.href} ${aa.title} ${inject('a')}>
+    <span ${classes ? '' : 'class="vitepress-linkcard-container" '}${inject('container')}>
+      ${content}
     </span>
   </a>
 </span>`
 }
+
+/**
+ * Wraps rendered cards in a block element, so they are not placed inside a `<p>`.
+ *
+ * @param cards - The HTML of each card
+ * @param options - The class prefix, and whether to lay the cards out in a grid
+ * @returns The HTML of the block
+ */
+export function generateCardBlock(
+  cards: string[],
+  options: { classPrefix?: string; grid?: boolean } = {}
+) {
+  const attrs = blockAttrs(options.classPrefix)
+
+  return `<div ${options.grid ? attrs.grid : attrs.block}>
+${cards.join('\n')}
+</div>
+`
+}
@@ -0,0 +1,270 @@
+import type {
+  BuildMode,
+  FetchOptions,
+  FetchResult,
+  ImageOptions,
+  PrefetchOptions,
+  SiteOptions,
+  UrlMetadata
+} from '../types'
+import { createHash } from 'node:crypto'
+import fs from 'node:fs'
+import path from 'node:path'
+import { isPureObject } from '@luckrya/utility'
+import { defaultCachePath } from './cache-store'
+import { fetchRemote, fetchRemoteSync, logFetchError } from './fetch'
+import { imageSize } from './image-size'
+import { DEFAULT_LOGO } from './parser'
+import { mapConcurrent } from './pool'
+
+/**
+ * An image downloaded into the image cache.
+ */
+export interface CachedImage {
+  /**
+   * The file name in the image cache, made of a hash of the contents.
+   */
+  file: string
+  width?: number
+  height?: number
+}
+
+type ImageCacheOptions = {
+  images?: ImageOptions
+  fetch?: FetchOptions
+  site?: SiteOptions
+  mode?: BuildMode
+}
+
+const INDEX_FILE = 'index.json'
+const IMAGE_ACCEPT = 'image/avif,image/webp,image/png,image/*;q=0.8'
+
+const indexes = new Map<string, Record<string, CachedImage>>()
+const failedImages = new Set<string>()
+const usedImages = new Map<string, string>()
+
+/**
+ * Returns the directory the image cache is kept in.
+ *
+ * @param options - Image options
+ * @returns The absolute path of the directory
+ */
+export function resolveImageDir(options: ImageOptions = {}) {
+  return path.resolve(options.dir ?? defaultCachePath('.linkcard_images'))
+}
+
+/**
+ * Returns the path under the site root that self-hosted images are served from.
+ *
+ * @param options - Image options
+ * @returns The path, without a leading slash and with a trailing one
+ */
+export function resolveImagePublicPath(options: ImageOptions = {}) {
+  const publicPath = options.publicPath ?? 'assets/linkcard/'
+  return publicPath.replace(/^\/+/, '').replace(/\/*$/, '/')
+}
+
+function loadIndex(dir: string) {
+  let index = indexes.get(dir)
+  if (index) return index
+
+  index = {}
+  try {
+    const data = JSON.parse(
+      fs.readFileSync(path.join(dir, INDEX_FILE), 'utf-8')
+    )
+    if (isPureObject(data)) index = data as Record<string, CachedImage>
+  } catch {
+    // No index yet.
+  }
+  indexes.set(dir, index)
+  return index
+}
+
+function saveIndex(dir: string, index: Record<string, CachedImage>) {
+  const sorted = Object.fromEntries(
+    Object.keys(index)
+      .sort()
+      .map((url) => [url, index[url]])
+  )
+  fs.writeFileSync(
+    path.join(dir, INDEX_FILE),
+    JSON.stringify(sorted, null, 2) + '\n'
+  )
+}
+
+function imageFetchOptions(options: ImageCacheOptions): FetchOptions {
+  return {
+    ...options.fetch,
+    headers: { accept: IMAGE_ACCEPT, ...options.fetch?.headers }
+  }
+}
+
+function isCached(url: string, dir: string) {
+  const image = loadIndex(dir)[url]
+  return !!image && fs.existsSync(path.join(dir, image.file))
+}
+
+function saveImage(result: FetchResult, dir: string) {
+  if (result.status !== 200) throw new Error(`HTTP ${result.status}`)
+
+  const size = imageSize(result.bytes)
+  // SVG may contain scripts, which would run if the file is opened from our origin.
+  if (!size || size.type === 'svg') throw new Error('unsupported image format')
+
+  const hash = createHash('sha256').update(result.bytes).digest('hex')
+  const image: CachedImage = {
+    file: `${hash.slice(0, 16)}.${size.type}`,
+    width: size.width,
+    height: size.height
+  }
+
+  fs.mkdirSync(dir, { recursive: true })
+  fs.writeFileSync(path.join(dir, image.file), result.bytes)
+  return image
+}
+
+/**
+ * Returns an image from the image cache, downloading it first if needed.
+ * Downloads that fail are not retried during the same build.
+ *
+ * @param url - The URL of the remote image
+ * @param options - Image, fetch and mode options
+ * @returns The cached image, or undefined if it is not available
+ */
+export function getCachedImage(url: string, options: ImageCacheOptions = {}) {
+  if (!/^https?:\/\//i.test(url)) return undefined
+
+  const dir = resolveImageDir(options.images)
+  const index = loadIndex(dir)
+  let image: CachedImage | undefined = index[url]
+
+  if (!isCached(url, dir)) {
+    if (failedImages.has(url) || options.mode === 'offline') return undefined
+
+    try {
+      image = saveImage(fetchRemoteSync(url, imageFetchOptions(options)), dir)
+    } catch (err) {
+      logFetchError(url, err)
+      failedImages.add(url)
+      return undefined
+    }
+    index[url] = image
+    saveIndex(dir, index)
+  }
+
+  usedImages.set(image.file, path.join(dir, image.file))
+  return image
+}
+
+/**
+ * Downloads images into the image cache concurrently, so that cards rendered
+ * afterwards find them there instead of downloading them one at a time.
+ * Cached images and those that already failed are skipped.
+ *
+ * @param urls - The URLs of the remote images
+ * @param options - Concurrency, image, fetch and mode options
+ * @returns The number of images that were requested; always 0 in `'offline'` mode
+ */
+export async function prefetchImages(
+  urls: string[],
+  options: PrefetchOptions & ImageCacheOptions = {}
+) {
+  if (options.mode === 'offline') return 0
+
+  const dir = resolveImageDir(options.images)
+  const index = loadIndex(dir)
+  const pending = [...new Set(urls)].filter(
+    (url) =>
+      /^https?:\/\//i.test(url) && !failedImages.has(url) && !isCached(url, dir)
+  )
+
+  await mapConcurrent(pending, options.concurrency ?? 8, async (url) => {
+    try {
+      const result = await fetchRemote(url, imageFetchOptions(options))
+      index[url] = saveImage(result, dir)
+    } catch (err) {
+      logFetchError(url, err)
+      failedImages.add(url)
+    }
+  })
+  if (pending.length) saveIndex(dir, index)
+
+  return pending.length
+}
+
+// The generic logo is no image of the page, and an SVG, which is never self-hosted.
+function pageImage(metadata: UrlMetadata) {
+  const logo = metadata.logo === DEFAULT_LOGO ? undefined : metadata.logo
+  return metadata.image || logo
+}
+
+/**
+ * Returns the remote images that {@link selfHostImages} looks for in card metadata.
+ *
+ * @param metadata - The card metadata
+ * @returns The URLs of the images
+ */
+export function cardImageUrls(metadata: UrlMetadata) {
+  return [
+    metadata.favicon,
+    pageImage(metadata),
+    metadata.oembed?.thumbnail_url
+  ].filter((url): url is string => !!url)
+}
+
+/**
+ * Returns the images used by cards so far.
+ *
+ * @returns The file names in the output, mapped to the cached files
+ */
+export function getUsedImages() {
+  return new Map(usedImages)
+}
+
+/**
+ * Replaces the remote images of card metadata with self-hosted copies.
+ *
+ * The image falls back to the favicon, then to `images.placeholder`.
+ * Images that cannot be downloaded are removed.
+ *
+ * @param metadata - The card metadata
+ * @param options - Image, fetch, site and mode options
+ * @returns The metadata with local image URLs and their dimensions
+ */
+export function selfHostImages(
+  metadata: UrlMetadata,
+  options: ImageCacheOptions = {}
+): UrlMetadata {
+  const base = (options.site?.base ?? '/').replace(/\/?$/, '/')
+  const publicPath = resolveImagePublicPath(options.images)
+  const localize = (
+    url?: string
+  ): { url: string; width?: number; height?: number } | undefined => {
+    // Images of the site itself, such as those of internal pages, are kept.
+    if (!url || !/^https?:\/\//i.test(url)) return url ? { url } : undefined
+
+    const image = getCachedImage(url, options)
+    return image && { ...image, url: `${base}${publicPath}${image.file}` }
+  }
+
+  const favicon = localize(metadata.favicon)
+  const image = localize(pageImage(metadata)) ?? favicon
+  const thumbnail = localize(metadata.oembed?.thumbnail_url)
+  const placeholder = options.images?.placeholder
+
+  return {
+    ...metadata,
+    image: image?.url ?? placeholder,
+    imageWidth: image?.width,
+    imageHeight: image?.height,
+    logo: image?.url ?? placeholder,
+    favicon: favicon?.url,
+    oembed: metadata.oembed && {
+      ...metadata.oembed,
+      thumbnail_url: thumbnail?.url,
+      thumbnail_width: thumbnail?.width,
+      thumbnail_height: thumbnail?.height
+    }
+  }
+}
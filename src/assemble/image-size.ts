@@ -0,0 +1,163 @@
+/**
+ * The format and dimensions of an image.
+ */
+export interface ImageSize {
+  /**
+   * The file extension of the format, e.g. `'png'`.
+   */
+  type: 'png' | 'gif' | 'jpg' | 'webp' | 'avif' | 'svg'
+  width?: number
+  height?: number
+}
+
+/**
+ * The MIME type of each image format.
+ */
+export const IMAGE_MIME_TYPES: Record<ImageSize['type'], string> = {
+  png: 'image/png',
+  gif: 'image/gif',
+  jpg: 'image/jpeg',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  svg: 'image/svg+xml'
+}
+
+const SvgStartReg =
+  /^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*(<!doctype svg[^>]*>\s*)?<svg\b/i
+
+function ascii(bytes: Uint8Array, start: number, end: number) {
+  return String.fromCharCode(...bytes.subarray(start, end))
+}
+
+function jpegSize(view: DataView): ImageSize {
+  let offset = 2
+
+  while (offset + 9 < view.byteLength) {
+    if (view.getUint8(offset) !== 0xff) break
+    const marker = view.getUint8(offset + 1)
+    // SOF markers, except DHT (C4), JPG (C8) and DAC (CC).
+    if (
+      marker >= 0xc0 &&
+      marker <= 0xcf &&
+      marker !== 0xc4 &&
+      marker !== 0xc8 &&
+      marker !== 0xcc
+    ) {
+      return {
+        type: 'jpg',
+        height: view.getUint16(offset + 5),
+        width: view.getUint16(offset + 7)
+      }
+    }
+    offset += 2 + view.getUint16(offset + 2)
+  }
+  return { type: 'jpg' }
+}
+
+function webpSize(bytes: Uint8Array, view: DataView): ImageSize {
+  const chunk = ascii(bytes, 12, 16)
+
+  if (chunk === 'VP8X') {
+    return {
+      type: 'webp',
+      width: 1 + (view.getUint32(24, true) & 0xffffff),
+      height: 1 + (view.getUint32(27, true) & 0xffffff)
+    }
+  }
+  if (chunk === 'VP8 ') {
+    return {
+      type: 'webp',
+      width: view.getUint16(26, true) & 0x3fff,
+      height: view.getUint16(28, true) & 0x3fff
+    }
+  }
+  if (chunk === 'VP8L') {
+    const bits = view.getUint32(21, true)
+    return {
+      type: 'webp',
+      width: 1 + (bits & 0x3fff),
+      height: 1 + ((bits >> 14) & 0x3fff)
+    }
+  }
+  return { type: 'webp' }
+}
+
+function avifSize(bytes: Uint8Array, view: DataView): ImageSize {
+  // The first `ispe` property box holds the dimensions of the primary image.
+  const ispe = ascii(bytes, 0, Math.min(bytes.length, 4096)).indexOf('ispe')
+  if (ispe === -1 || ispe + 16 > bytes.length) return { type: 'avif' }
+
+  return {
+    type: 'avif',
+    width: view.getUint32(ispe + 8),
+    height: view.getUint32(ispe + 12)
+  }
+}
+
+function svgLength(value?: string) {
+  const match = value?.match(/^\s*([\d.]+)\s*(px)?\s*$/)
+  return match ? Math.round(Number(match[1])) || undefined : undefined
+}
+
+function svgSize(text: string): ImageSize {
+  const tag = text.match(/<svg\b[^>]*>/i)?.[0] ?? ''
+  const attr = (name: string) =>
+    tag.match(new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`, 'i'))?.[1]
+
+  const width = svgLength(attr('width'))
+  const height = svgLength(attr('height'))
+  if (width && height) return { type: 'svg', width, height }
+
+  const viewBox = attr('viewBox')
+    ?.trim()
+    .split(/[\s,]+/)
+    .map(Number)
+  if (viewBox?.length === 4 && viewBox[2] > 0 && viewBox[3] > 0) {
+    return {
+      type: 'svg',
+      width: Math.round(viewBox[2]),
+      height: Math.round(viewBox[3])
+    }
+  }
+  return { type: 'svg' }
+}
+
+/**
+ * Detects the format of an image from its bytes and reads its dimensions
+ * from the header, without decoding it.
+ *
+ * PNG, GIF, JPEG, WebP, AVIF and SVG are supported.
+ *
+ * @param bytes - The contents of the image file
+ * @returns The format and dimensions, or undefined if the format is not supported.
+ *   The dimensions are missing if the header cannot be read.
+ */
+export function imageSize(bytes: Uint8Array): ImageSize | undefined {
+  if (bytes.length < 16) return undefined
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+
+  if (ascii(bytes, 1, 4) === 'PNG' && bytes.length >= 24) {
+    return {
+      type: 'png',
+      width: view.getUint32(16),
+      height: view.getUint32(20)
+    }
+  }
+  if (ascii(bytes, 0, 4) === 'GIF8') {
+    return {
+      type: 'gif',
+      width: view.getUint16(6, true),
+      height: view.getUint16(8, true)
+    }
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return jpegSize(view)
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 12) === 'WEBP') {
+    return bytes.length >= 30 ? webpSize(bytes, view) : { type: 'webp' }
+  }
+  if (ascii(bytes, 4, 8) === 'ftyp' && /avi[fs]/.test(ascii(bytes, 8, 32))) {
+    return avifSize(bytes, view)
+  }
+
+  const text = new TextDecoder().decode(bytes.subarray(0, 4096))
+  return SvgStartReg.test(text) ? svgSize(text) : undefined
+}
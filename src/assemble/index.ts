@@ -1,4 +1,19 @@
 export * from './metadata'
 export * from './html'
 export * from './parser'
-export * as xhr from './xhr'
+export * from './fetch'
+export * from './link'
+export * from './markdown-files'
+export * from './pool'
+export * from './cache-store'
+export * from './oembed'
+export * from './page'
+export * from './report'
+export * from './escape'
+export * from './image-size'
+export * from './image-cache'
+export * from './locale'
+export * from './component'
+export * from './errors'
+export * from './structured-data'
+export * from './url'
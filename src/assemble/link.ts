@@ -0,0 +1,193 @@
+import type { BareUrlOptions, CardLayout, EmbedMode } from '../types'
+import { matchesUrl } from './url'
+
+/**
+ * A card link found in a markdown source.
+ */
+export interface CardLinkLocation {
+  /**
+   * The URL the card points to, without the `@:` prefix.
+   */
+  url: string
+
+  /**
+   * The 1-based line number of the link in the source.
+   */
+  line: number
+}
+
+const CardLinkHrefReg = new RegExp(
+  `^${'@'}([a-z-]+(?:,[a-z-]+)*)?:([a-zA-Z0-9./].*)`
+)
+const SchemeReg = /^[a-zA-Z][a-zA-Z0-9+.-]*:/
+const EMBED_MODES: string[] = ['card', 'thumbnail', 'embed']
+const LAYOUTS: string[] = ['default', 'compact', 'large', 'text-only']
+const MarkdownLinkHrefReg = /\]\(\s*<?([^\s)>]+)/g
+const FenceReg = /^\s{0,3}(`{3,}|~{3,})/
+const BareUrlReg = /^https?:\/\/[^\s<>]+$/i
+const GridOpenReg = /^\s{0,3}:::\s*linkcard(?:\s+(\S+))?\s*$/
+const GridCloseReg = /^\s{0,3}:::\s*$/
+const GridUrlReg = /^(?:https?:\/\/|\.{0,2}\/)[^\s<>]+$/i
+const BlockBoundaryReg = /^\s{0,3}(#|:::)/
+
+/**
+ * Checks whether a card link points to a page of the site itself,
+ * i.e. it is a site-root or relative path rather than an absolute URL.
+ *
+ * @param url - The URL of a card link, without the `@:` prefix
+ * @returns Whether the link is internal
+ */
+export function isInternalLink(url: string) {
+  return !SchemeReg.test(url) && !url.startsWith('//')
+}
+
+/**
+ * Checks whether a link href uses the `@:` card syntax and extracts its URL.
+ *
+ * Modifiers between `@` and `:` select how the link is displayed: a layout
+ * (`@large:`) and/or an embed mode (`@thumbnail:`), separated by a comma
+ * (`@large,thumbnail:`). An href with an unknown modifier is not a card link.
+ *
+ * @param href - The href of a markdown link
+ * @returns Whether the href is a card link, and its URL, layout and display mode if so
+ */
+export function parseCardLinkHref(href?: string) {
+  const match = href?.match(CardLinkHrefReg)
+  const modifiers = match?.[1]?.split(',') ?? []
+  const isCardLink =
+    !!match &&
+    modifiers.every((m) => EMBED_MODES.includes(m) || LAYOUTS.includes(m))
+
+  return {
+    isCardLink,
+    url: isCardLink ? match?.[2] : undefined,
+    layout: modifiers.find((m) => LAYOUTS.includes(m)) as
+      | CardLayout
+      | undefined,
+    embed: modifiers.find((m) => EMBED_MODES.includes(m)) as
+      | EmbedMode
+      | undefined
+  }
+}
+
+/**
+ * Checks whether the text of a paragraph is a bare URL that becomes a card.
+ *
+ * @param text - The whole text of the paragraph
+ * @param options - The `bareUrls` option
+ * @returns Whether the text is an `http(s)` URL allowed by the patterns
+ */
+export function isBareCardUrl(
+  text: string,
+  options: boolean | BareUrlOptions = false
+) {
+  if (!options || !BareUrlReg.test(text)) return false
+  if (options === true) return true
+
+  let url: URL
+  try {
+    url = new URL(text)
+  } catch {
+    return false
+  }
+  return (
+    (!options.include || matchesUrl(options.include, url)) &&
+    !(options.exclude && matchesUrl(options.exclude, url))
+  )
+}
+
+/**
+ * Parses the opening line of a `::: linkcard` container, which may name
+ * the layout of its cards (`::: linkcard compact`).
+ *
+ * @param line - A line of markdown
+ * @returns The layout, or undefined if the line does not open a container
+ */
+export function parseCardGridInfo(line: string) {
+  const match = line.match(GridOpenReg)
+  if (!match || (match[1] && !LAYOUTS.includes(match[1]))) return undefined
+
+  return { layout: match[1] as CardLayout | undefined }
+}
+
+/**
+ * Checks whether a line closes a `::: linkcard` container.
+ *
+ * @param line - A line of markdown
+ */
+export function isCardGridClose(line: string) {
+  return GridCloseReg.test(line)
+}
+
+/**
+ * Checks whether a line inside a `::: linkcard` container is the URL of a card:
+ * an `http(s)` URL or a path to a page of the site.
+ *
+ * @param line - A line inside the container, without surrounding spaces
+ */
+export function isCardGridUrl(line: string) {
+  return GridUrlReg.test(line)
+}
+
+/**
+ * Collects every `@:` card link to another site in a markdown source, skipping
+ * fenced code blocks and links to the site's own pages. URLs in `::: linkcard`
+ * containers are collected too, and so are bare-URL paragraphs with `bareUrls`.
+ *
+ * @param source - The markdown source
+ * @param options - The `bareUrls` option
+ * @returns The card links in order of appearance
+ */
+export function collectCardLinks(
+  source: string,
+  options: { bareUrls?: boolean | BareUrlOptions } = {}
+) {
+  const links: CardLinkLocation[] = []
+  const lines = source.split(/\r?\n/)
+  let fence: string | undefined
+  let grid = false
+
+  lines.forEach((text, index) => {
+    const fenceMatch = text.match(FenceReg)
+
+    if (fenceMatch) {
+      const marker = fenceMatch[1]
+      if (!fence) fence = marker
+      else if (marker[0] === fence[0] && marker.length >= fence.length) {
+        fence = undefined
+      }
+      return
+    }
+    if (fence) return
+
+    const line = text.trim()
+    if (grid || parseCardGridInfo(text)) {
+      grid = grid ? !isCardGridClose(text) : true
+      if (grid && isCardGridUrl(line) && !isInternalLink(line)) {
+        links.push({ url: line, line: index + 1 })
+      }
+      return
+    }
+
+    // Only a paragraph of its own; a line after text continues that paragraph.
+    const previous = lines[index - 1]
+    const next = lines[index + 1]
+    if (
+      isBareCardUrl(line, options.bareUrls) &&
+      (!previous?.trim() || BlockBoundaryReg.test(previous)) &&
+      (!next?.trim() || isCardGridClose(next))
+    ) {
+      links.push({ url: line, line: index + 1 })
+      return
+    }
+
+    for (const [, href] of text.matchAll(MarkdownLinkHrefReg)) {
+      const { isCardLink, url } = parseCardLinkHref(href)
+      if (isCardLink && url && !isInternalLink(url)) {
+        links.push({ url, line: index + 1 })
+      }
+    }
+  })
+
+  return links
+}
@@ -0,0 +1,39 @@
+import type { SiteOptions } from '../types'
+
+/**
+ * Finds the language of a page the way VitePress picks its locale: the locale
+ * whose key is the first directory of the page, or else `root`.
+ *
+ * @param site - The site options with `lang` and `locales`
+ * @param relativePath - The path of the page, relative to `srcDir`
+ * @param localeIndex - The locale key, if VitePress already resolved it
+ * @returns The language tag of the locale, or undefined if it has none
+ */
+export function resolvePageLang(
+  site: SiteOptions = {},
+  relativePath = '',
+  localeIndex?: string
+) {
+  const locales = site.locales ?? {}
+  const page = relativePath.replace(/\\/g, '/').replace(/^\//, '')
+  const key =
+    localeIndex ??
+    Object.keys(locales).find(
+      (key) =>
+        key !== 'root' && page.startsWith(`${key.replace(/^\/|\/$/g, '')}/`)
+    )
+
+  return (key && locales[key]?.lang) || locales.root?.lang || site.lang
+}
+
+/**
+ * Builds an `Accept-Language` header preferring a language, then its primary
+ * subtag, e.g. `ja-JP,ja;q=0.9` for `ja-JP`.
+ *
+ * @param lang - A language tag
+ * @returns The header value
+ */
+export function acceptLanguage(lang: string) {
+  const primary = lang.split('-')[0]
+  return primary && primary !== lang ? `${lang},${primary};q=0.9` : lang
+}
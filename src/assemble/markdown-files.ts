@@ -0,0 +1,23 @@
+import fs from 'node:fs'
+import path from 'node:path'
+
+/**
+ * Recursively lists the markdown files under a directory.
+ * `node_modules` and dot-directories such as `.vitepress` are skipped.
+ *
+ * @param dir - The directory to search
+ * @returns Absolute paths of the markdown files
+ */
+export function findMarkdownFiles(dir: string): string[] {
+  if (!fs.existsSync(dir)) return []
+
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const fullPath = path.resolve(dir, entry.name)
+
+    if (entry.isDirectory()) {
+      if (entry.name === 'node_modules' || entry.name.startsWith('.')) return []
+      return findMarkdownFiles(fullPath)
+    }
+    return entry.isFile() && entry.name.endsWith('.md') ? [fullPath] : []
+  })
+}
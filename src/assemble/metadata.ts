@@ -1,25 +1,575 @@
-import type { UrlMetadata } from '../types'
-import { parserMetadata, xhr } from '.'
-import LocalFileCache from './local-file-cache'
+import type {
+  CacheEntry,
+  CacheOptions,
+  CardReportEntry,
+  CacheStore,
+  FetchOptions,
+  FetchResult,
+  LinkToCardPluginOptions,
+  PrefetchOptions,
+  UrlMetadata
+} from '../types'
+import {
+  DEFAULT_LOGO,
+  parserMetadata,
+  fetchRemote,
+  fetchRemoteSync,
+  logFetchError,
+  mapConcurrent
+} from '.'
+import { findProvider } from '../providers'
+import { LinkCardError } from './errors'
+import { cardImageUrls, prefetchImages } from './image-cache'
+import { acceptLanguage } from './locale'
+import { oembedTarget, parseOEmbed } from './oembed'
+import { normalizeUrl } from './url'
+import {
+  DirectoryCacheStore,
+  FileCacheStore,
+  MemoryCacheStore
+} from './cache-store'
 
-const cache = new LocalFileCache<UrlMetadata>()
+type MetadataOptions = Pick<
+  LinkToCardPluginOptions,
+  'fetch' | 'cache' | 'providers' | 'oembed' | 'mode' | 'normalize' | 'images'
+> & {
+  /**
+   * The language to request the page in; entries are cached per language.
+   */
+  lang?: string
+}
+
+/**
+ * The provider adapter matching a URL, as returned by `findProvider`.
+ */
+export type MatchedProvider = ReturnType<typeof findProvider>
+
+const stores = new Map<string, CacheStore>()
+const usedStores = new Set<CacheStore>()
+const failed = new Set<string>()
+const requests = new Map<string, UrlRequest>()
+
+// The last request for a page during this process, for the build report.
+interface UrlRequest {
+  stale: boolean
+  time: number
+  result?: FetchResult
+}
+
+const CacheKeyReg = /^(\S+) \[([^\]\s]+)\]$/
+
+/**
+ * Returns the key of the cache entry of a URL in a language.
+ *
+ * @param url - The URL of the card
+ * @param lang - The language the page is requested in
+ * @returns The URL alone without a language, or else `<url> [<lang>]`
+ */
+export function cacheKey(url: string, lang?: string) {
+  return lang ? `${url} [${lang}]` : url
+}
+
+/**
+ * Splits a cache key made by {@link cacheKey} into the URL and the language.
+ *
+ * @param key - The cache key
+ * @returns The URL and the language, if the key has one
+ */
+export function parseCacheKey(key: string): { url: string; lang?: string } {
+  const match = key.match(CacheKeyReg)
+  return match ? { url: match[1], lang: match[2] } : { url: key }
+}
+
+/**
+ * Returns the cache store selected by the cache options.
+ * Built-in stores are shared by every caller with the same options.
+ *
+ * @param options - Cache options
+ * @returns The cache store
+ */
+export function resolveCacheStore(options: CacheOptions = {}) {
+  let store: CacheStore | undefined
+
+  if (typeof options.store === 'object') {
+    store = options.store
+  } else {
+    const type = options.store ?? 'file'
+    const key = `${type}:${options.path ?? ''}`
+
+    store = stores.get(key)
+    if (!store) {
+      if (type === 'memory') store = new MemoryCacheStore()
+      else if (type === 'directory')
+        store = new DirectoryCacheStore(options.path)
+      else store = new FileCacheStore(options.path)
+      stores.set(key, store)
+    }
+  }
+
+  if (!usedStores.size) process.once('exit', flushCacheStores)
+  usedStores.add(store)
+  return store
+}
+
+/**
+ * Persists the buffered writes of every cache store in use.
+ * It also runs automatically when the process exits.
+ */
+export function flushCacheStores() {
+  usedStores.forEach((store) => store.flush())
+}
+
+function isStale(entry: CacheEntry, maxAge?: number) {
+  if (maxAge === undefined) return false
+  const fetchedAt = entry.fetchedAt ? Date.parse(entry.fetchedAt) : NaN
+
+  return !(Date.now() - fetchedAt < maxAge)
+}
+
+function withLanguage(
+  fetchOptions: FetchOptions = {},
+  lang?: string
+): FetchOptions {
+  if (!lang) return fetchOptions
+
+  return {
+    ...fetchOptions,
+    headers: {
+      'accept-language': acceptLanguage(lang),
+      ...fetchOptions.headers
+    }
+  }
+}
+
+function withValidators(
+  fetchOptions: FetchOptions = {},
+  entry?: CacheEntry
+): FetchOptions {
+  const headers: Record<string, string> = {}
+  if (entry?.etag) headers['if-none-match'] = entry.etag
+  if (entry?.lastModified) headers['if-modified-since'] = entry.lastModified
+
+  return {
+    ...fetchOptions,
+    headers: { ...headers, ...fetchOptions.headers }
+  }
+}
+
+/**
+ * Parses the metadata of a successful response.
+ *
+ * @param result - The response of the page
+ * @returns Parsed metadata including the encoding of the page, or null if the
+ *   response is not a `200` or no valid metadata is found
+ */
+export function parseFetchResult(result: FetchResult) {
+  if (result.status !== 200 || !result.body) return null
+
+  const metadata = parserMetadata(result.body, result.url)
+  return metadata && { ...metadata, encoding: result.encoding }
+}
+
+/**
+ * Builds the metadata of a fallback card from what is known without a request:
+ * the link text as the title, the domain as the site name, and a generic icon.
+ *
+ * @param url - The URL of the card
+ * @param linkTitle - The text of the markdown link
+ * @returns Metadata for the fallback card
+ */
+export function fallbackMetadata(url: string, linkTitle: string): UrlMetadata {
+  let domain: string | undefined
+  try {
+    domain = new URL(url).hostname.replace(/^www\./, '')
+  } catch {
+    domain = undefined
+  }
+
+  return {
+    title: linkTitle || domain || url,
+    siteName: domain,
+    logo: DEFAULT_LOGO
+  }
+}
+
+/**
+ * Returns the URL to request for a card, as rewritten by its provider adapter.
+ *
+ * @param url - The URL of the card
+ * @param provider - The matching provider adapter
+ * @returns The URL to fetch
+ */
+export function fetchTarget(url: string, provider?: MatchedProvider) {
+  return provider?.adapter.resolveUrl?.(provider.url) ?? url
+}
+
+/**
+ * Parses a response with the provider adapter, or as an HTML page if it has no parser.
+ *
+ * @param result - The response
+ * @param provider - The matching provider adapter
+ * @returns Parsed metadata, or null if the response is not usable
+ */
+export function parseResponse(result: FetchResult, provider?: MatchedProvider) {
+  return provider?.adapter.parse
+    ? provider.adapter.parse(result, provider.url)
+    : parseFetchResult(result)
+}
+
+/**
+ * Post-processes metadata with the provider adapter. The cache holds metadata
+ * before this step, so changes to adapters apply to cached entries as well.
+ *
+ * @param metadata - Parsed or cached metadata
+ * @param provider - The matching provider adapter
+ * @returns The metadata to render
+ */
+export function applyProvider(
+  metadata: UrlMetadata,
+  provider?: MatchedProvider
+): UrlMetadata
+export function applyProvider(
+  metadata: UrlMetadata | null,
+  provider?: MatchedProvider
+): UrlMetadata | null
+export function applyProvider(
+  metadata: UrlMetadata | null,
+  provider?: MatchedProvider
+) {
+  if (!metadata || !provider?.adapter.transform) return metadata
+  return provider.adapter.transform(metadata, provider.url)
+}
+
+function servedFrom(result: FetchResult) {
+  return {
+    finalUrl: result.url,
+    redirects: result.redirects.length ? result.redirects : undefined
+  }
+}
+
+// The URL a card was served from. Without redirects, it is the URL as written,
+// since variants of it share one cache entry and one request. A redirect keeps
+// the fragment of the URL as written, as in browsers.
+function servedUrl(url: string, finalUrl?: string, redirects?: string[]) {
+  if (!finalUrl || !redirects?.length) return url
+  return finalUrl.includes('#')
+    ? finalUrl
+    : finalUrl + (url.match(/#.*$/)?.[0] ?? '')
+}
+
+function buildEntry(
+  result: FetchResult | undefined,
+  previous: CacheEntry | undefined,
+  provider: MatchedProvider
+): CacheEntry | undefined {
+  const fetchedAt = new Date().toISOString()
+
+  if (result?.status === 304 && previous) {
+    return { ...previous, fetchedAt, ...servedFrom(result) }
+  }
+  if (!result) return undefined
+
+  const metadata = parseResponse(result, provider)
+  return metadata
+    ? {
+        metadata,
+        fetchedAt,
+        etag: result.headers.etag,
+        lastModified: result.headers['last-modified'],
+        ...servedFrom(result)
+      }
+    : undefined
+}
+
+function storeEntry(
+  store: CacheStore,
+  key: string,
+  entry: CacheEntry | undefined,
+  previous: CacheEntry | undefined,
+  provider: MatchedProvider
+) {
+  if (!entry) {
+    failed.add(key)
+    return applyProvider(previous?.metadata ?? null, provider)
+  }
+
+  store.set(key, entry)
+  failed.delete(key)
+  return applyProvider(entry.metadata, provider)
+}
+
+function recordRequest(
+  key: string,
+  startedAt: number,
+  cached: CacheEntry | undefined,
+  result: FetchResult | undefined
+) {
+  requests.set(key, {
+    stale: !!cached,
+    time: Math.round(performance.now() - startedAt),
+    result
+  })
+}
+
+/**
+ * Describes how the metadata of a URL was obtained, for the build report:
+ * from the last request during this process, or else from the cache.
+ *
+ * @param url - The URL of the card
+ * @param options - Cache and language options
+ * @returns Where the metadata came from, and the status and redirects of the page
+ */
+export function describeUrlRequest(
+  url: string,
+  options: Pick<MetadataOptions, 'cache' | 'lang' | 'normalize'> = {}
+): Pick<
+  CardReportEntry,
+  'cache' | 'status' | 'finalUrl' | 'redirects' | 'fetchTime'
+> {
+  const key = cacheKey(normalizeUrl(url, options.normalize), options.lang)
+  const request = requests.get(key)
+  if (request) {
+    const { result } = request
+    return {
+      cache: request.stale ? 'stale' : 'miss',
+      status: result?.status,
+      finalUrl: result && servedUrl(url, result.url, result.redirects),
+      redirects: result?.redirects ?? [],
+      fetchTime: request.time
+    }
+  }
+
+  const cached = resolveCacheStore(options.cache).get(key)
+  return {
+    cache: cached ? 'hit' : 'none',
+    finalUrl: cached && servedUrl(url, cached.finalUrl, cached.redirects),
+    redirects: cached?.redirects ?? []
+  }
+}
+
+/**
+ * Returns the canonical URL of a card: `<link rel="canonical">` or `og:url`
+ * of the page, or else the URL it was finally served from after redirects.
+ *
+ * @param url - The URL of the card
+ * @param metadata - The metadata of the page
+ * @param options - Cache, language and normalization options
+ * @returns The canonical URL, or else the URL the page was served from
+ */
+export function canonicalCardUrl(
+  url: string,
+  metadata: UrlMetadata,
+  options: Pick<
+    MetadataOptions,
+    'cache' | 'lang' | 'normalize' | 'providers'
+  > = {}
+) {
+  const { canonicalUrl } = metadata
+  if (canonicalUrl && /^https?:\/\//i.test(canonicalUrl)) return canonicalUrl
+
+  // Providers may request another URL, such as an API, in place of the page.
+  const provider = findProvider(url, options.providers)
+  if (provider?.adapter.resolveUrl) return url
+  return describeUrlRequest(url, options).finalUrl ?? url
+}
 
 /**
  * Retrieves metadata for a given URL, using cache when available.
  *
+ * Stale entries are revalidated with a conditional request and kept as they are
+ * if it fails. URLs that already failed during a prefetch are not requested again,
+ * and nothing is requested in `'offline'` mode.
+ *
+ * With a `lang`, the page is requested with a matching `Accept-Language` header
+ * and cached apart from other languages.
+ *
+ * The URL is requested as written. It is normalized as set by `normalize`
+ * only for the cache key, so variants of the same URL share one entry.
+ *
  * @param url - The URL to fetch metadata from
+ * @param options - Fetch, cache, provider, oEmbed, mode and language options
  * @returns The parsed URL metadata, or null if unavailable
  */
-export function getUrlMetadata(url: string) {
-  if (cache.has(url)) return cache.get(url)
-  let metadata: UrlMetadata | null = null
-  const htmlString = xhr.sync(url)
+export function getUrlMetadata(url: string, options: MetadataOptions = {}) {
+  const provider = findProvider(url, options.providers)
+  const provided = provider?.adapter.metadata?.(provider.url)
+  if (provided) return applyProvider(provided, provider)
+
+  const store = resolveCacheStore(options.cache)
+  const key = cacheKey(normalizeUrl(url, options.normalize), options.lang)
+  const fetchOptions = withLanguage(options.fetch, options.lang)
+  const cached = store.get(key)
+  if (cached && !isStale(cached, options.cache?.maxAge)) {
+    return applyProvider(cached.metadata, provider)
+  }
+  if (failed.has(key) || options.mode === 'offline') {
+    return applyProvider(cached?.metadata ?? null, provider)
+  }
+
+  let result: FetchResult | undefined
+  const startedAt = performance.now()
+  try {
+    result = fetchRemoteSync(
+      fetchTarget(url, provider),
+      withValidators(fetchOptions, cached)
+    )
+  } catch (err) {
+    logFetchError(url, err)
+  }
+  recordRequest(key, startedAt, cached, result)
+
+  const entry = buildEntry(result, cached, provider)
+  const oembedUrl = entry && oembedTarget(url, entry.metadata, options.oembed)
+  if (entry && oembedUrl) {
+    try {
+      const oembed = parseOEmbed(fetchRemoteSync(oembedUrl, fetchOptions))
+      if (oembed) entry.metadata = { ...entry.metadata, oembed }
+    } catch (err) {
+      logFetchError(oembedUrl, err)
+    }
+  }
+
+  return storeEntry(store, key, entry, cached, provider)
+}
+
+/**
+ * Asynchronous variant of {@link getUrlMetadata} that rejects when no metadata
+ * is available. It always requests the URL when it is not cached or stale,
+ * even if an earlier attempt failed, except in `'offline'` mode.
+ * A stale entry is returned if the request fails.
+ *
+ * @param url - The URL to fetch metadata from
+ * @param options - Fetch, cache, provider, oEmbed, mode and language options
+ * @returns A promise that resolves to the parsed URL metadata
+ * @throws {@link LinkCardError} If the URL cannot be fetched, has no metadata,
+ *   or is not cached in `'offline'` mode
+ */
+export async function requestUrlMetadata(
+  url: string,
+  options: MetadataOptions = {}
+): Promise<UrlMetadata> {
+  const provider = findProvider(url, options.providers)
+  const provided = provider?.adapter.metadata?.(provider.url)
+  if (provided) return applyProvider(provided, provider)
 
-  if (htmlString) {
-    metadata = parserMetadata(htmlString, url)
+  const store = resolveCacheStore(options.cache)
+  const key = cacheKey(normalizeUrl(url, options.normalize), options.lang)
+  const fetchOptions = withLanguage(options.fetch, options.lang)
+  const cached = store.get(key)
+  const fresh = cached && !isStale(cached, options.cache?.maxAge)
+  if (fresh || (cached && options.mode === 'offline')) {
+    return applyProvider(cached.metadata, provider)
+  }
+  if (options.mode === 'offline') {
+    throw new LinkCardError('not cached', { code: 'offline', url })
+  }
 
-    if (metadata) cache.set(url, metadata)
+  let result: FetchResult | undefined
+  let error: LinkCardError | undefined
+  const startedAt = performance.now()
+  try {
+    result = await fetchRemote(
+      fetchTarget(url, provider),
+      withValidators(fetchOptions, cached)
+    )
+    if (result.status >= 400) {
+      error = new LinkCardError(`HTTP ${result.status}`, {
+        code: 'http',
+        url,
+        status: result.status
+      })
+    }
+  } catch (err) {
+    error = new LinkCardError(
+      err instanceof Error ? err.message : 'request failed',
+      { code: 'fetch', url, cause: err }
+    )
   }
+  recordRequest(key, startedAt, cached, result)
 
-  return metadata
+  const entry = buildEntry(result, cached, provider)
+  const oembedUrl = entry && oembedTarget(url, entry.metadata, options.oembed)
+  if (entry && oembedUrl) {
+    try {
+      const oembed = parseOEmbed(await fetchRemote(oembedUrl, fetchOptions))
+      if (oembed) entry.metadata = { ...entry.metadata, oembed }
+    } catch (err) {
+      logFetchError(oembedUrl, err)
+    }
+  }
+
+  const metadata = storeEntry(store, key, entry, cached, provider)
+  if (metadata) return metadata
+  throw (
+    error ?? new LinkCardError('no metadata found', { code: 'metadata', url })
+  )
+}
+
+/**
+ * Asynchronous variant of {@link getUrlMetadata}. It always requests the URL
+ * when it is not cached or stale, even if an earlier attempt failed, except
+ * in `'offline'` mode.
+ *
+ * @param url - The URL to fetch metadata from
+ * @param options - Fetch, cache, provider, oEmbed, mode and language options
+ * @returns A promise that resolves to the parsed URL metadata, or null if unavailable
+ */
+export async function fetchUrlMetadata(
+  url: string,
+  options: MetadataOptions = {}
+) {
+  try {
+    return await requestUrlMetadata(url, options)
+  } catch (err) {
+    if (err instanceof LinkCardError && err.code === 'fetch') {
+      logFetchError(url, err.cause)
+    }
+    return null
+  }
+}
+
+/**
+ * Fetches the metadata of every uncached or stale URL concurrently and stores it in the cache.
+ * With `images.selfHost`, the images of the cards are downloaded concurrently as well.
+ *
+ * @param urls - The URLs to prefetch; URLs that are the same after normalization are requested once
+ * @param options - Concurrency, fetch, cache, provider, oEmbed, mode and language options
+ * @returns The number of URLs that were requested; always 0 in `'offline'` mode
+ */
+export async function prefetchUrlMetadata(
+  urls: string[],
+  options: PrefetchOptions & MetadataOptions = {}
+) {
+  if (options.mode === 'offline') return 0
+
+  const store = resolveCacheStore(options.cache)
+  const byKey = new Map<string, string>()
+  urls.forEach((url) => {
+    const key = cacheKey(normalizeUrl(url, options.normalize), options.lang)
+    if (!byKey.has(key)) byKey.set(key, url)
+  })
+  const pending = [...byKey].flatMap(([key, url]) => {
+    const cached = store.get(key)
+    return !cached || isStale(cached, options.cache?.maxAge) ? [url] : []
+  })
+
+  await mapConcurrent(pending, options.concurrency ?? 8, (url) =>
+    fetchUrlMetadata(url, options)
+  )
+
+  if (options.images?.selfHost) {
+    const images = [...byKey].flatMap(([key, url]) => {
+      const provider = findProvider(url, options.providers)
+      const metadata = applyProvider(
+        provider?.adapter.metadata?.(provider.url) ??
+          store.get(key)?.metadata ??
+          null,
+        provider
+      )
+      return metadata ? cardImageUrls(metadata) : []
+    })
+    await prefetchImages(images, options)
+  }
+
+  return pending.length
 }
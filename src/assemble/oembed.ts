@@ -0,0 +1,137 @@
+import type {
+  FetchResult,
+  OEmbedData,
+  OEmbedEndpoint,
+  OEmbedOptions,
+  UrlMetadata
+} from '../types'
+import { isPureObject } from '@luckrya/utility'
+import { escapeAttr } from './escape'
+import { tokenizeHtml } from './html-tokenizer'
+import { matchesUrl } from './url'
+
+/**
+ * Endpoints of well-known oEmbed providers, used without discovery.
+ */
+export const KNOWN_OEMBED_ENDPOINTS: OEmbedEndpoint[] = [
+  {
+    match: ['youtube.com', '*.youtube.com', 'youtu.be'],
+    endpoint: 'https://www.youtube.com/oembed'
+  },
+  {
+    match: ['vimeo.com', '*.vimeo.com'],
+    endpoint: 'https://vimeo.com/api/oembed.json'
+  },
+  {
+    match: ['speakerdeck.com'],
+    endpoint: 'https://speakerdeck.com/oembed.json'
+  },
+  { match: ['codepen.io'], endpoint: 'https://codepen.io/api/oembed' }
+]
+
+const OEMBED_TYPES = ['photo', 'video', 'link', 'rich']
+
+const IFRAME_ATTRS = [
+  'src',
+  'width',
+  'height',
+  'title',
+  'allow',
+  'allowfullscreen',
+  'frameborder',
+  'referrerpolicy'
+]
+
+/**
+ * Returns the oEmbed endpoint to request for a page: a known endpoint that
+ * serves the URL, or else the one the page advertises.
+ *
+ * @param url - The URL of the page
+ * @param metadata - The metadata parsed from the page
+ * @param options - oEmbed options
+ * @returns The URL to request, or undefined if there is none or oEmbed is disabled
+ */
+export function oembedTarget(
+  url: string,
+  metadata: UrlMetadata,
+  options: OEmbedOptions = {}
+) {
+  if (options.enabled === false || metadata.oembed) return undefined
+
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return undefined
+  }
+
+  const known = [...(options.endpoints ?? []), ...KNOWN_OEMBED_ENDPOINTS].find(
+    ({ match }) => matchesUrl(match, parsed)
+  )
+  if (known) {
+    const endpoint = new URL(known.endpoint)
+    endpoint.searchParams.set('url', url)
+    endpoint.searchParams.set('format', 'json')
+    return endpoint.href
+  }
+
+  return options.discover === false ? undefined : metadata.oembedUrl
+}
+
+/**
+ * Parses an oEmbed response.
+ *
+ * @param result - The response of the oEmbed endpoint
+ * @returns The oEmbed data, or undefined if the response is not valid oEmbed JSON
+ */
+export function parseOEmbed(result: FetchResult): OEmbedData | undefined {
+  if (result.status !== 200) return undefined
+  try {
+    const data = JSON.parse(result.body)
+    if (isPureObject(data) && OEMBED_TYPES.includes(data.type as string)) {
+      return data as unknown as OEmbedData
+    }
+  } catch {
+    // Not JSON.
+  }
+  return undefined
+}
+
+/**
+ * Reduces the embed HTML of an oEmbed response to its `<iframe>` elements.
+ *
+ * Everything else, such as scripts and event handlers, is dropped. An iframe is
+ * only kept if its source is `https:`, and only a fixed set of attributes is kept.
+ *
+ * @param html - The `html` field of an oEmbed response
+ * @param extraAttrs - Attributes added to every iframe, such as a `style`
+ * @returns The sanitized HTML, or undefined if no iframe is left
+ */
+export function sanitizeEmbedHtml(html: string, extraAttrs = '') {
+  const iframes: string[] = []
+
+  for (const token of tokenizeHtml(html)) {
+    if (token.type !== 'start' || token.name !== 'iframe') continue
+
+    let src: URL
+    try {
+      src = new URL(token.attrs.src ?? '')
+    } catch {
+      continue
+    }
+    if (src.protocol !== 'https:') continue
+
+    const attrs = IFRAME_ATTRS.filter((name) => name in token.attrs).map(
+      (name) =>
+        name === 'src'
+          ? `src="${escapeAttr(src.href)}"`
+          : `${name}="${escapeAttr(token.attrs[name])}"`
+    )
+    if (extraAttrs) attrs.push(extraAttrs)
+    iframes.push(
+      `<iframe ${attrs.join(' ')} loading="lazy" sandbox="allow-scripts allow-same-origin allow-popups allow-presentation"></iframe>`
+    )
+  }
+
+  return iframes.length ? iframes.join('') : undefined
+}
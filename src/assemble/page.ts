@@ -0,0 +1,212 @@
+import type { SiteOptions, UrlMetadata } from '../types'
+import fs from 'node:fs'
+import path from 'node:path'
+import { isInternalLink } from './link'
+
+/**
+ * Where an internal card link points to.
+ */
+export interface PageLocation {
+  /**
+   * The absolute path of the markdown file of the page.
+   */
+  file: string
+
+  /**
+   * The URL of the built page, with `base` and `cleanUrls` applied.
+   */
+  href: string
+}
+
+const FrontmatterReg = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/
+const FrontmatterLineReg = /^([A-Za-z_][\w-]*)[ \t]*:[ \t]*(.*)$/
+const HeadingReg = /^\s{0,3}#\s+(.+?)\s*#*\s*$/
+const FenceReg = /^\s{0,3}(`{3,}|~{3,})/
+const ContainerReg = /^\s*:::+\s*(\S*)/
+const NonParagraphReg = /^\s*(#|<|\||>|[-*+]\s|\d+[.)]\s|\[\[toc\]\])/i
+
+const IMAGE_KEYS = ['image', 'cover', 'thumbnail']
+
+function withBase(base: string, route: string) {
+  return `${base.replace(/\/?$/, '/')}${route.replace(/^\//, '')}`
+}
+
+function pageRoute(relativeFile: string, cleanUrls?: boolean) {
+  const route = relativeFile.split(path.sep).join('/').replace(/\.md$/, '')
+
+  if (route === 'index' || route.endsWith('/index')) return route.slice(0, -5)
+  return cleanUrls ? route : `${route}.html`
+}
+
+/**
+ * Finds the markdown file an internal card link points to and the URL of the built page.
+ *
+ * Site-root paths (`/guide/intro`) are resolved against `srcDir`, relative
+ * paths against the directory of the page containing the link. The `.md`
+ * and `.html` extensions are optional and directories resolve to `index.md`.
+ *
+ * @param link - The path of the link, optionally with a query and hash
+ * @param site - The site options; `srcDir` is required
+ * @param relativePath - The path of the page containing the link, relative to `srcDir`
+ * @returns The location of the page, or undefined if no such file exists
+ */
+export function resolvePageLink(
+  link: string,
+  site: SiteOptions,
+  relativePath = ''
+): PageLocation | undefined {
+  if (!site.srcDir) return undefined
+
+  const [, pathname = '', suffix = ''] = link.match(/^([^?#]*)(.*)$/) ?? []
+  const from = link.startsWith('/')
+    ? site.srcDir
+    : path.dirname(path.resolve(site.srcDir, relativePath))
+  const target = path.resolve(from, `.${path.sep}${pathname}`)
+
+  const candidates = pathname.endsWith('/')
+    ? [path.join(target, 'index.md')]
+    : [
+        target.replace(/\.html$/, '.md'),
+        `${target}.md`,
+        path.join(target, 'index.md')
+      ]
+  const file = candidates.find(
+    (candidate) => candidate.endsWith('.md') && fs.existsSync(candidate)
+  )
+  if (!file) return undefined
+
+  const route = pageRoute(path.relative(site.srcDir, file), site.cleanUrls)
+  return { file, href: withBase(site.base ?? '/', route) + suffix }
+}
+
+function unquote(value: string) {
+  const quoted = value.match(/^(["'])(.*)\1\s*(?:#.*)?$/)
+  if (quoted) return quoted[2]
+  return value.replace(/\s+#.*$/, '').trim()
+}
+
+/**
+ * Reads the top-level scalar fields of the YAML frontmatter of a markdown source.
+ * Nested values and lists are skipped.
+ *
+ * @param source - The markdown source
+ * @returns The fields and the markdown after the frontmatter
+ */
+export function parseFrontmatter(source: string) {
+  const data: Record<string, string> = {}
+  const match = source.match(FrontmatterReg)
+  if (!match) return { data, content: source }
+
+  match[1].split(/\r?\n/).forEach((line) => {
+    const field = line.match(FrontmatterLineReg)
+    if (field && field[2]) data[field[1]] = unquote(field[2])
+  })
+
+  return { data, content: source.slice(match[0].length) }
+}
+
+function stripMarkdown(text: string) {
+  return text
+    .replace(/\s*\{#[^}]*\}\s*$/, '')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/<[^>]+>|\{\{[^}]*\}\}/g, '')
+    .replace(/\*\*|__|~~|[*`]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function firstHeadingAndParagraph(content: string) {
+  let heading: string | undefined
+  const paragraph: string[] = []
+  let fence: string | undefined
+  let containers = 0
+
+  for (const line of content.split(/\r?\n/)) {
+    const fenceMatch = line.match(FenceReg)
+    if (fenceMatch || fence) {
+      if (!fence) fence = fenceMatch?.[1]
+      else if (fenceMatch?.[1].startsWith(fence)) fence = undefined
+      if (paragraph.length) break
+      continue
+    }
+
+    const containerMatch = line.match(ContainerReg)
+    if (containerMatch || containers) {
+      if (containerMatch)
+        containers = Math.max(0, containers + (containerMatch[1] ? 1 : -1))
+      if (paragraph.length) break
+      continue
+    }
+
+    if (!line.trim()) {
+      if (paragraph.length) break
+      continue
+    }
+
+    const headingMatch = line.match(HeadingReg)
+    if (headingMatch) {
+      heading ??= headingMatch[1]
+      if (paragraph.length) break
+    } else if (!NonParagraphReg.test(line)) {
+      paragraph.push(line.trim())
+    } else if (paragraph.length) {
+      break
+    }
+  }
+
+  return {
+    heading: heading && stripMarkdown(heading),
+    paragraph: paragraph.length ? stripMarkdown(paragraph.join(' ')) : undefined
+  }
+}
+
+function resolveImage(image: string, href: string, base: string) {
+  if (!isInternalLink(image)) return image
+  if (image.startsWith('/')) return withBase(base, image)
+  const route = href.replace(/[?#].*$/, '')
+  const dir = route.endsWith('/') ? route : path.posix.dirname(route)
+  return path.posix.join(dir, image)
+}
+
+/**
+ * Builds card metadata for a page of the site from its markdown source,
+ * without any request.
+ *
+ * The title and description come from the frontmatter, or else from the first
+ * `#` heading and the first paragraph. The image comes from the `image`,
+ * `cover` or `thumbnail` frontmatter field.
+ *
+ * @param page - The location of the page
+ * @param site - The site options
+ * @returns Metadata of the page, or null if the file cannot be read
+ */
+export function getPageMetadata(
+  page: PageLocation,
+  site: SiteOptions = {}
+): UrlMetadata | null {
+  let source: string
+  try {
+    source = fs.readFileSync(page.file, 'utf-8')
+  } catch {
+    return null
+  }
+
+  const { data, content } = parseFrontmatter(source)
+  const { heading, paragraph } = firstHeadingAndParagraph(content)
+  const imageField = IMAGE_KEYS.map((key) => data[key]).find(Boolean)
+  const image =
+    imageField && resolveImage(imageField, page.href, site.base ?? '/')
+
+  const metadata: UrlMetadata = {
+    title: data.title || heading || path.basename(page.file, '.md'),
+    description: data.description || paragraph,
+    logo: image,
+    image,
+    siteName: site.title ?? page.href.replace(/[?#].*$/, '')
+  }
+
+  return Object.fromEntries(
+    Object.entries(metadata).filter(([, value]) => value !== undefined)
+  ) as UrlMetadata
+}
@@ -1,71 +1,138 @@
 import type { UrlMetadata } from '../types'
 import { isString } from '@luckrya/utility'
-import { cleanPath, extractUrl } from './url'
+import { tokenizeHtml } from './html-tokenizer'
+import { parseStructuredData } from './structured-data'
+import { resolveUrl } from './url'
 
-const DEFAULT_LOGO = 'https://resources.whatwg.org/logo-url.svg'
+/**
+ * The generic icon shown on cards of pages without an image or favicon.
+ */
+export const DEFAULT_LOGO = 'https://resources.whatwg.org/logo-url.svg'
 
-const HtmlTagContentReg = /(<[A-Za-z]+\s*[^>]*>(.*)<\/[A-Za-z]+>)/
-const ContentAttrValueHtmlMetaTagReg = /content=["|']([^>]*)["|']/
-const HrefAttrValueHtmlLinkTagReg = /href=["|']([^>]*)["|']/
-const HtmlTitleTagReg = /(<title\s*[^>]*>(.*)<\/title>)/g
+/**
+ * Meta tag keys (`property`, `name` or `itemprop`) in order of priority:
+ * Open Graph first, then Twitter Cards, then standard meta tags.
+ */
+const META_KEYS = {
+  title: ['og:title', 'twitter:title', 'title'],
+  description: ['og:description', 'twitter:description', 'description'],
+  image: [
+    'og:image',
+    'og:image:url',
+    'og:image:secure_url',
+    'twitter:image',
+    'twitter:image:src',
+    'image',
+    'thumbnail'
+  ],
+  imageAlt: ['og:image:alt', 'twitter:image:alt'],
+  imageWidth: ['og:image:width'],
+  imageHeight: ['og:image:height'],
+  siteName: ['og:site_name', 'application-name'],
+  type: ['og:type'],
+  author: ['article:author', 'author', 'twitter:creator'],
+  publishedTime: ['article:published_time', 'datepublished'],
+  themeColor: ['theme-color'],
+  canonicalUrl: ['og:url']
+}
+
+/**
+ * `rel` values of `<link>` tags used as the favicon, in order of priority.
+ */
+const ICON_RELS = ['icon', 'apple-touch-icon']
 
-const containArrSelfLosingHtmlTagReg = (attr: string, tag = 'meta') =>
-  new RegExp(`<${tag}\\s[^>]*\\w+=['|"]([a-zA-Z]|:|\\s)*${attr}['|"][^>]*\\/?>`)
+interface HtmlHead {
+  title?: string
+  base?: string
+  metas: Map<string, string>
+  links: Array<Record<string, string>>
+}
 
-function matchTitleByMetaTag(htmlString: string) {
-  let title: string | undefined
-  const metas = htmlString.match(containArrSelfLosingHtmlTagReg('title'))
+function collapseWhitespace(str: string) {
+  return str.replace(/\s+/g, ' ').trim()
+}
 
-  if (metas?.length) {
-    const content = metas[0].match(ContentAttrValueHtmlMetaTagReg)
-    if (content && isString(content[1])) title = content[1]
-  } else {
-    const titleHtmlTag = htmlString.match(HtmlTitleTagReg)
+/**
+ * Collects the `<title>`, `<base>`, `<meta>` and `<link>` tags of the document head.
+ * Tokenizing stops at `</head>` or `<body>`.
+ */
+function readHead(htmlString: string): HtmlHead {
+  const head: HtmlHead = { metas: new Map(), links: [] }
+  let inTitle = false
+
+  for (const token of tokenizeHtml(htmlString)) {
+    if (token.type === 'text') {
+      if (inTitle) head.title = (head.title ?? '') + token.text
+      continue
+    }
+    if (token.type === 'end') {
+      if (token.name === 'head') break
+      if (token.name === 'title') inTitle = false
+      continue
+    }
 
-    if (titleHtmlTag?.length) {
-      const content = titleHtmlTag[0].match(HtmlTagContentReg)
-      if (content && isString(content[2])) title = content[2]
+    const { name, attrs } = token
+    if (name === 'body') break
+
+    if (name === 'title' && head.title === undefined) {
+      inTitle = !token.selfClosing
+    } else if (name === 'base' && attrs.href && !head.base) {
+      head.base = attrs.href
+    } else if (name === 'meta') {
+      const key = (attrs.property || attrs.name || attrs.itemprop)
+        ?.trim()
+        .toLowerCase()
+      const content = attrs.content?.trim()
+      if (key && content && !head.metas.has(key)) head.metas.set(key, content)
+    } else if (name === 'link') {
+      head.links.push(attrs)
     }
   }
 
-  return title
+  return head
 }
 
-function matchDescriptionByMetaTag(htmlString: string) {
-  let description: string | undefined
-  const metas = htmlString.match(containArrSelfLosingHtmlTagReg('description'))
-
-  if (metas?.length) {
-    const content = metas[0].match(ContentAttrValueHtmlMetaTagReg)
-    if (content && isString(content[1])) description = content[1]
+function findMeta(head: HtmlHead, keys: string[]) {
+  for (const key of keys) {
+    const content = head.metas.get(key)
+    if (content) return collapseWhitespace(content)
   }
-  return description
+  return undefined
 }
 
-function matchLogoByLinkOrMetaTag(htmlString: string) {
-  let logo: string | undefined
-  const metas = htmlString.match(containArrSelfLosingHtmlTagReg('image'))
-
-  if (metas?.length) {
-    const content = metas[0].match(ContentAttrValueHtmlMetaTagReg)
-    if (content && isString(content[1])) logo = content[1]
-  } else {
-    const linkHtmlTags = htmlString.match(
-      containArrSelfLosingHtmlTagReg('icon', 'link')
+function findLink(head: HtmlHead, rels: string[]) {
+  for (const rel of rels) {
+    const link = head.links.find(
+      (attrs) =>
+        attrs.href?.trim() &&
+        attrs.rel?.toLowerCase().split(/\s+/).includes(rel)
     )
-
-    if (linkHtmlTags?.length) {
-      const content = linkHtmlTags[0].match(HrefAttrValueHtmlLinkTagReg)
-      if (content && isString(content[1])) logo = content[1]
-    }
+    if (link) return link.href
   }
+  return undefined
+}
 
-  return logo
+function toPixels(value?: string) {
+  const pixels = Number(value)
+  return Number.isInteger(pixels) && pixels > 0 ? pixels : undefined
 }
 
 /**
  * Parses HTML string to extract structured metadata for link card generation.
  *
+ * Meta tags are read from the document head. Each field takes the first value found in this order:
+ *
+ * 1. Open Graph (`og:title`, `og:description`, `og:image`)
+ * 2. Twitter Cards (`twitter:title`, `twitter:description`, `twitter:image`)
+ * 3. Standard meta tags (`name="title"`, `name="description"`, `itemprop="image"`)
+ * 4. schema.org JSON-LD or microdata of the main item, also for the author and date
+ * 5. `<title>` for the title
+ *
+ * The favicon comes from `<link rel="icon">`, and `logo` is the image, the
+ * favicon or a generic logo, in that order. Character references are decoded
+ * and relative URLs are resolved against `<base href>` or the page URL.
+ * The schema.org data itself is kept in `structuredData`, read from the whole page.
+ *
  * @param htmlString - The HTML content to parse
  * @param url - The URL of the page
  * @returns Parsed metadata object, or null if no valid metadata found
@@ -74,21 +141,63 @@ export function parserMetadata(
   htmlString: string,
   url: string
 ): UrlMetadata | null {
-  function absolute(logo?: string) {
-    if (!logo) return DEFAULT_LOGO
-    return extractUrl(logo)
-      ? logo
-      : `${extractUrl(url)?.origin}${cleanPath(`/${logo}`)}`
+  const head = readHead(htmlString)
+  const base = (head.base && resolveUrl(head.base, url)) || url
+
+  function absolute(href?: string) {
+    return href ? resolveUrl(href, base) : undefined
   }
 
+  const structuredData = parseStructuredData(htmlString, base)
+  const title = head.title && collapseWhitespace(head.title)
+  const image =
+    absolute(findMeta(head, META_KEYS.image)) ?? structuredData?.image
+  const favicon = absolute(findLink(head, ICON_RELS))
   const metadata = {
-    title: matchTitleByMetaTag(htmlString),
-    description: matchDescriptionByMetaTag(htmlString),
-    logo: absolute(matchLogoByLinkOrMetaTag(htmlString))
+    title:
+      findMeta(head, META_KEYS.title) ||
+      structuredData?.headline ||
+      title ||
+      undefined,
+    description:
+      findMeta(head, META_KEYS.description) ?? structuredData?.description,
+    logo: image ?? favicon ?? DEFAULT_LOGO
   }
 
   if (isEmptyStringObject(metadata)) return null
-  else return metadata
+
+  const extended: UrlMetadata = {
+    image,
+    imageAlt: findMeta(head, META_KEYS.imageAlt),
+    imageWidth: toPixels(findMeta(head, META_KEYS.imageWidth)),
+    imageHeight: toPixels(findMeta(head, META_KEYS.imageHeight)),
+    favicon,
+    siteName: findMeta(head, META_KEYS.siteName),
+    type: findMeta(head, META_KEYS.type),
+    author: findMeta(head, META_KEYS.author) ?? structuredData?.author,
+    publishedTime:
+      findMeta(head, META_KEYS.publishedTime) ?? structuredData?.datePublished,
+    themeColor: findMeta(head, META_KEYS.themeColor),
+    canonicalUrl: absolute(
+      findLink(head, ['canonical']) ?? findMeta(head, META_KEYS.canonicalUrl)
+    ),
+    oembedUrl: absolute(
+      head.links.find(
+        (attrs) =>
+          attrs.rel?.toLowerCase().split(/\s+/).includes('alternate') &&
+          attrs.type?.toLowerCase() === 'application/json+oembed'
+      )?.href
+    ),
+    structuredData
+  }
+
+  // Leave out missing fields so that cache files only hold what was found.
+  return Object.assign(
+    metadata,
+    Object.fromEntries(
+      Object.entries(extended).filter(([, v]) => v !== undefined)
+    )
+  )
 }
 
 function isEmptyStringObject(obj: Record<string, string | undefined>) {
@@ -0,0 +1,28 @@
+/**
+ * Maps over items with an async function, running at most `limit` calls at once.
+ *
+ * @param items - The items to process
+ * @param limit - Maximum number of calls in flight
+ * @param fn - The async function to apply to each item
+ * @returns The results, in the order of `items`
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = []
+  let next = 0
+
+  async function run() {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await fn(items[index], index)
+    }
+  }
+
+  await Promise.all(
+    Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, run)
+  )
+  return results
+}
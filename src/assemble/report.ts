@@ -0,0 +1,283 @@
+import type {
+  CardFailure,
+  CardReport,
+  CardReportEntry,
+  ReportFormat,
+  ReportOptions
+} from '../types'
+import fs from 'node:fs'
+import path from 'node:path'
+import { defaultCachePath } from './cache-store'
+import { escapeHtml } from './escape'
+
+const failures = new Map<string, CardFailure>()
+const cards = new Map<string, CardReportEntry>()
+
+const REPORT_FILES: Record<ReportFormat, string> = {
+  json: 'report.json',
+  markdown: 'report.md',
+  html: 'report.html'
+}
+
+function compareLocation(
+  a: { file?: string; line?: number },
+  b: { file?: string; line?: number }
+) {
+  return (
+    (a.file ?? '').localeCompare(b.file ?? '') || (a.line ?? 0) - (b.line ?? 0)
+  )
+}
+
+function location(item: { file?: string; line?: number }) {
+  return item.line
+    ? `${item.file ?? '<unknown>'}:${item.line}`
+    : (item.file ?? '<unknown>')
+}
+
+/**
+ * Records a card link that could not be turned into a card.
+ * A link rendered more than once is only recorded once.
+ *
+ * @param failure - The link and why it failed
+ */
+export function recordCardFailure(failure: CardFailure) {
+  const key = `${failure.file}:${failure.line}:${failure.url}`
+  if (!failures.has(key)) failures.set(key, failure)
+}
+
+/**
+ * Returns the card failures recorded so far and forgets them.
+ *
+ * @returns The failures, ordered by file and line
+ */
+export function takeCardFailures() {
+  const list = [...failures.values()].sort(compareLocation)
+  failures.clear()
+  return list
+}
+
+/**
+ * Formats a card failure as `file:line url (reason)`.
+ *
+ * @param failure - The failure
+ * @returns A single line describing the failure
+ */
+export function formatCardFailure(failure: CardFailure) {
+  return `${location(failure)} ${failure.url} (${failure.reason})`
+}
+
+/**
+ * Records a card rendered during the build for the build report.
+ * A card rendered more than once is only recorded once, with its latest state.
+ *
+ * @param entry - The card
+ */
+export function recordCardReport(entry: CardReportEntry) {
+  cards.set(`${entry.file}:${entry.line}:${entry.url}`, entry)
+}
+
+/**
+ * Returns the report of every card recorded so far. Unlike failures, recorded
+ * cards are kept, so the report of a later build step includes earlier ones.
+ *
+ * @returns The report
+ */
+export function getCardReport(): CardReport {
+  const list = [...cards.values()].sort(compareLocation)
+  const count = (fn: (entry: CardReportEntry) => boolean) =>
+    list.filter(fn).length
+
+  return {
+    generatedAt: new Date().toISOString(),
+    summary: {
+      total: list.length,
+      failed: count((entry) => !!entry.failure),
+      broken: count((entry) => isBroken(entry)),
+      redirected: count((entry) => entry.redirects.length > 0),
+      incomplete: count((entry) => !entry.complete),
+      cached: count((entry) => entry.cache === 'hit')
+    },
+    cards: list
+  }
+}
+
+function isBroken(entry: CardReportEntry) {
+  return !!entry.status && entry.status >= 400
+}
+
+/**
+ * Lists what a card needs a look at, such as a failure, an error status,
+ * a redirect or missing metadata.
+ *
+ * @param entry - The card
+ * @returns A short description of each issue; empty if there is none
+ */
+export function cardReportIssues(entry: CardReportEntry) {
+  const issues: string[] = []
+  if (entry.failure) issues.push(entry.failure)
+  if (isBroken(entry)) issues.push(`HTTP ${entry.status}`)
+  if (entry.redirects.length && entry.finalUrl) {
+    issues.push(`redirects to ${entry.finalUrl}`)
+  }
+  if (!entry.failure && entry.missing.length) {
+    issues.push(`no ${entry.missing.join(', ')}`)
+  }
+  return issues
+}
+
+type Table = { headers: string[]; rows: string[][] }
+
+function reportTables(report: CardReport) {
+  const { summary } = report
+  const attention = report.cards.filter(
+    (entry) => cardReportIssues(entry).length
+  )
+
+  return {
+    summary: {
+      headers: [
+        'Cards',
+        'Failed',
+        'Broken',
+        'Redirected',
+        'Incomplete',
+        'Cached'
+      ],
+      rows: [
+        [
+          summary.total,
+          summary.failed,
+          summary.broken,
+          summary.redirected,
+          summary.incomplete,
+          summary.cached
+        ].map(String)
+      ]
+    },
+    attention: {
+      headers: ['Page', 'URL', 'Issues'],
+      rows: attention.map((entry) => [
+        location(entry),
+        entry.url,
+        cardReportIssues(entry).join('; ')
+      ])
+    },
+    cards: {
+      headers: ['Page', 'URL', 'Status', 'Cache', 'Time', 'Metadata'],
+      rows: report.cards.map((entry) => [
+        location(entry),
+        entry.url,
+        entry.status ? String(entry.status) : '-',
+        entry.cache,
+        entry.fetchTime !== undefined ? `${entry.fetchTime} ms` : '-',
+        entry.rendered !== 'card'
+          ? entry.rendered
+          : entry.complete
+            ? 'complete'
+            : `no ${entry.missing.join(', ')}`
+      ])
+    }
+  } satisfies Record<string, Table>
+}
+
+function markdownTable({ headers, rows }: Table) {
+  const cell = (text: string) => text.replace(/\|/g, '\\|')
+  return [
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map((row) => `| ${row.map(cell).join(' | ')} |`)
+  ].join('\n')
+}
+
+function htmlTable({ headers, rows }: Table) {
+  const row = (cells: string[], tag: string) =>
+    `<tr>${cells.map((text) => `<${tag}>${escapeHtml(text)}</${tag}>`).join('')}</tr>`
+  return [
+    '<table>',
+    `<thead>${row(headers, 'th')}</thead>`,
+    `<tbody>${rows.map((cells) => row(cells, 'td')).join('\n')}</tbody>`,
+    '</table>'
+  ].join('\n')
+}
+
+/**
+ * Formats the build report as Markdown, with the cards that need a look first.
+ *
+ * @param report - The report
+ * @returns The Markdown document
+ */
+export function formatCardReportMarkdown(report: CardReport) {
+  const tables = reportTables(report)
+
+  return [
+    '# Link card report',
+    `Generated at ${report.generatedAt}`,
+    markdownTable(tables.summary),
+    '## Needs attention',
+    tables.attention.rows.length
+      ? markdownTable(tables.attention)
+      : 'Every card is fine.',
+    '## All cards',
+    markdownTable(tables.cards)
+  ].join('\n\n')
+}
+
+/**
+ * Formats the build report as a standalone HTML page, with the same content
+ * as {@link formatCardReportMarkdown}.
+ *
+ * @param report - The report
+ * @returns The HTML document
+ */
+export function formatCardReportHtml(report: CardReport) {
+  const tables = reportTables(report)
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<title>Link card report</title>',
+    '<style>body{font-family:sans-serif;margin:2em}table{border-collapse:collapse}th,td{border:1px solid #ccc;padding:4px 8px;text-align:left}</style>',
+    '</head>',
+    '<body>',
+    '<h1>Link card report</h1>',
+    `<p>Generated at ${escapeHtml(report.generatedAt)}</p>`,
+    htmlTable(tables.summary),
+    '<h2>Needs attention</h2>',
+    tables.attention.rows.length
+      ? htmlTable(tables.attention)
+      : '<p>Every card is fine.</p>',
+    '<h2>All cards</h2>',
+    htmlTable(tables.cards),
+    '</body>',
+    '</html>'
+  ].join('\n')
+}
+
+/**
+ * Writes the build report into the report directory, in each format.
+ *
+ * @param report - The report
+ * @param options - Report options
+ * @returns The absolute paths of the written files
+ */
+export function writeCardReport(
+  report: CardReport,
+  options: ReportOptions = {}
+) {
+  const dir = path.resolve(options.dir ?? defaultCachePath('.linkcard_report'))
+  const formats = options.formats ?? ['json', 'markdown']
+  const contents: Record<ReportFormat, () => string> = {
+    json: () => JSON.stringify(report, null, 2),
+    markdown: () => formatCardReportMarkdown(report),
+    html: () => formatCardReportHtml(report)
+  }
+
+  fs.mkdirSync(dir, { recursive: true })
+  return [...new Set(formats)].map((format) => {
+    const file = path.join(dir, REPORT_FILES[format])
+    fs.writeFileSync(file, `${contents[format]()}\n`)
+    return file
+  })
+}
@@ -0,0 +1,353 @@
+import type { StructuredData } from '../types'
+import type { HtmlToken } from './html-tokenizer'
+import { isPureObject } from '@luckrya/utility'
+import { tokenizeHtml } from './html-tokenizer'
+import { resolveUrl } from './url'
+
+type Node = Record<string, unknown>
+
+// The text content of an element that is the value of a microdata property.
+type TextValue = { node: Node; prop: string; value: string }
+
+/**
+ * Recognized schema.org types, in order of priority when a page has several.
+ */
+const TYPE_GROUPS: Record<string, string[]> = {
+  product: ['Product', 'ProductModel', 'IndividualProduct', 'Book'],
+  software: [
+    'SoftwareApplication',
+    'MobileApplication',
+    'WebApplication',
+    'VideoGame',
+    'SoftwareSourceCode'
+  ],
+  event: ['Event'],
+  article: [
+    'Article',
+    'NewsArticle',
+    'BlogPosting',
+    'TechArticle',
+    'ScholarlyArticle',
+    'Report',
+    'Recipe',
+    'HowTo'
+  ]
+}
+
+// Elements without an end tag, which never hold a microdata text value.
+const VOID_ELEMENTS = [
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'source',
+  'track',
+  'wbr'
+]
+
+// How many tokens microdata is read from, so that huge pages stay fast.
+const MAX_MICRODATA_TOKENS = 50000
+
+// Where microdata takes the value of a property from, by element.
+const VALUE_ATTRS: Record<string, string> = {
+  meta: 'content',
+  a: 'href',
+  area: 'href',
+  link: 'href',
+  img: 'src',
+  audio: 'src',
+  video: 'src',
+  source: 'src',
+  iframe: 'src',
+  embed: 'src',
+  object: 'data',
+  time: 'datetime',
+  data: 'value',
+  meter: 'value'
+}
+
+function typesOf(node: Node) {
+  const type = node['@type']
+  const types = Array.isArray(type) ? type : [type]
+  return types
+    .filter((t): t is string => typeof t === 'string')
+    .map((t) => t.replace(/^https?:\/\/schema\.org\//, ''))
+}
+
+function groupOf(type: string) {
+  return Object.keys(TYPE_GROUPS).find(
+    (group) =>
+      TYPE_GROUPS[group].includes(type) ||
+      (group === 'event' && type.endsWith('Event'))
+  )
+}
+
+/**
+ * Flattens JSON-LD documents into their nodes, following arrays and `@graph`.
+ */
+function flattenJsonLd(data: unknown, nodes: Node[] = []) {
+  if (Array.isArray(data)) {
+    data.forEach((item) => flattenJsonLd(item, nodes))
+  } else if (isPureObject(data)) {
+    if (data['@type']) nodes.push(data)
+    if (data['@graph']) flattenJsonLd(data['@graph'], nodes)
+  }
+  return nodes
+}
+
+function readJsonLd(scripts: string[]) {
+  return scripts.flatMap((script) => {
+    try {
+      return flattenJsonLd(JSON.parse(script))
+    } catch {
+      // Invalid JSON-LD is common; skip it.
+      return []
+    }
+  })
+}
+
+/**
+ * Reads the items of microdata into the same shape as JSON-LD nodes.
+ * Only items that are not a property of another item are returned.
+ */
+function readMicrodata(tokens: Iterable<HtmlToken>) {
+  const items: Node[] = []
+  const open: { name: string; item?: Node; text?: TextValue }[] = []
+  const texts = new Set<TextValue>()
+  // Indexes into `open`: of the open elements by tag name, and of the
+  // elements that hold an item, innermost last.
+  const openByName = new Map<string, number[]>()
+  const itemIndexes: number[] = []
+  let count = 0
+
+  const setProp = (node: Node, prop: string, value: unknown) => {
+    prop.split(/\s+/).forEach((name) => {
+      if (name && !(name in node)) node[name] = value
+    })
+  }
+
+  for (const token of tokens) {
+    if (++count > MAX_MICRODATA_TOKENS) break
+    if (token.type === 'text') {
+      texts.forEach((text) => (text.value += token.text))
+      continue
+    }
+    if (token.type === 'end') {
+      const indexes = openByName.get(token.name)
+      if (!indexes?.length) continue
+      const index = indexes[indexes.length - 1]
+      while (itemIndexes[itemIndexes.length - 1] >= index) itemIndexes.pop()
+      open.splice(index).forEach(({ name, text }) => {
+        openByName.get(name)?.pop()
+        if (!text) return
+        setProp(text.node, text.prop, text.value.replace(/\s+/g, ' ').trim())
+        texts.delete(text)
+      })
+      continue
+    }
+
+    const { name, attrs, selfClosing } = token
+    const parent = open[itemIndexes[itemIndexes.length - 1]]?.item
+    const isVoid = selfClosing || VOID_ELEMENTS.includes(name)
+    const el: (typeof open)[number] = { name }
+
+    if ('itemscope' in attrs) {
+      const item: Node = { '@type': attrs.itemtype?.split(/\s+/)[0] ?? '' }
+      if (parent && attrs.itemprop) setProp(parent, attrs.itemprop, item)
+      else if (!attrs.itemprop) items.push(item)
+      el.item = item
+    } else if (parent && attrs.itemprop) {
+      const attr = 'content' in attrs ? 'content' : VALUE_ATTRS[name]
+      if (attr && attrs[attr] !== undefined) {
+        setProp(parent, attrs.itemprop, attrs[attr])
+      } else if (!isVoid) {
+        el.text = { node: parent, prop: attrs.itemprop, value: '' }
+        texts.add(el.text)
+      }
+    }
+
+    if (!isVoid) {
+      const indexes = openByName.get(name) ?? []
+      indexes.push(open.length)
+      openByName.set(name, indexes)
+      if (el.item) itemIndexes.push(open.length)
+      open.push(el)
+    }
+  }
+
+  return items
+}
+
+function text(value: unknown): string | undefined {
+  if (Array.isArray(value)) return text(value[0])
+  if (isPureObject(value)) return text(value.name ?? value['@value'])
+  if (typeof value === 'number') return String(value)
+  return typeof value === 'string' && value.trim()
+    ? value.replace(/\s+/g, ' ').trim()
+    : undefined
+}
+
+function number(value: unknown) {
+  if (Array.isArray(value)) return number(value[0])
+  const num = typeof value === 'string' ? Number(value.trim()) : value
+  return typeof num === 'number' && Number.isFinite(num) ? num : undefined
+}
+
+function imageUrl(value: unknown): string | undefined {
+  if (Array.isArray(value)) return imageUrl(value[0])
+  if (isPureObject(value)) return imageUrl(value.url ?? value.contentUrl)
+  return text(value)
+}
+
+function names(value: unknown) {
+  const list = (Array.isArray(value) ? value : [value])
+    .map((item) => text(item))
+    .filter(Boolean)
+  return list.length ? list.join(', ') : undefined
+}
+
+function locationOf(value: unknown): string | undefined {
+  if (Array.isArray(value)) return locationOf(value[0])
+  if (!isPureObject(value)) return text(value)
+
+  const address = value.address
+  return (
+    text(value.name) ??
+    (isPureObject(address)
+      ? text(address.addressLocality ?? address.name)
+      : text(address))
+  )
+}
+
+function normalize(node: Node, base: string): StructuredData {
+  const offer = Array.isArray(node.offers) ? node.offers[0] : node.offers
+  const offers: Node = isPureObject(offer) ? offer : {}
+  const rating: Node = isPureObject(node.aggregateRating)
+    ? node.aggregateRating
+    : {}
+  const image = imageUrl(node.image)
+
+  const data: StructuredData = {
+    type: typesOf(node)[0] ?? 'Thing',
+    headline: text(node.headline ?? node.name),
+    description: text(node.description),
+    image: image && resolveUrl(image, base),
+    author: names(node.author ?? node.creator),
+    datePublished: text(node.datePublished ?? node.releaseDate),
+    price: number(offers.price ?? offers.lowPrice),
+    currency: text(offers.priceCurrency),
+    rating: number(rating.ratingValue),
+    ratingCount: number(rating.ratingCount ?? rating.reviewCount),
+    startDate: text(node.startDate),
+    location: locationOf(node.location),
+    version: text(node.softwareVersion ?? node.version)
+  }
+
+  return Object.fromEntries(
+    Object.entries(data).filter(([, value]) => value !== undefined)
+  ) as StructuredData
+}
+
+function mainItem(nodes: Node[]) {
+  return Object.keys(TYPE_GROUPS)
+    .map((group) =>
+      nodes.find((node) => typesOf(node).some((t) => groupOf(t) === group))
+    )
+    .find(Boolean)
+}
+
+/**
+ * Extracts the schema.org data of the main item of a page from JSON-LD
+ * (`<script type="application/ld+json">`) or, failing that, from microdata.
+ *
+ * Products come first, then software, events and articles. Other types,
+ * such as `WebSite` or `Organization`, describe the site rather than the page
+ * and are ignored.
+ *
+ * @param htmlString - The HTML content of the page
+ * @param base - The URL relative image URLs are resolved against
+ * @returns The normalized data, or undefined if the page has none
+ */
+export function parseStructuredData(
+  htmlString: string,
+  base: string
+): StructuredData | undefined {
+  const scripts: string[] = []
+  let inJsonLd = false
+
+  for (const token of tokenizeHtml(htmlString)) {
+    if (inJsonLd && token.type === 'text') scripts.push(token.text)
+    inJsonLd =
+      token.type === 'start' &&
+      token.name === 'script' &&
+      token.attrs.type?.trim().toLowerCase() === 'application/ld+json'
+  }
+
+  // Microdata is only read, with a second pass, when JSON-LD has no main item.
+  const main =
+    mainItem(readJsonLd(scripts)) ??
+    (/itemscope/i.test(htmlString)
+      ? mainItem(readMicrodata(tokenizeHtml(htmlString)))
+      : undefined)
+
+  return main && normalize(main, base)
+}
+
+function formatPrice(price: number, currency?: string) {
+  if (price === 0) return 'Free'
+  try {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: currency ?? 'USD',
+      minimumFractionDigits: Number.isInteger(price) ? 0 : undefined
+    }).format(price)
+  } catch {
+    // Not an ISO 4217 code.
+    return `${price} ${currency}`
+  }
+}
+
+function formatDate(date: string) {
+  return date.match(/^\d{4}-\d{2}-\d{2}/)?.[0] ?? date
+}
+
+/**
+ * Builds the detail line of a card from its structured data, such as
+ * `★4.5 · $29` for a product or `Published 2025-03-02` for an article.
+ *
+ * @param data - The structured data of the page
+ * @returns The detail line, or undefined if there is nothing to show
+ */
+export function structuredDataDetail(data?: StructuredData) {
+  if (!data) return undefined
+
+  const group = groupOf(data.type)
+  const rating =
+    data.rating !== undefined
+      ? `★${Math.round(data.rating * 10) / 10}`
+      : undefined
+  const price =
+    data.price !== undefined && (data.currency || data.price === 0)
+      ? formatPrice(data.price, data.currency)
+      : undefined
+  const published = data.datePublished
+    ? `Published ${formatDate(data.datePublished)}`
+    : undefined
+
+  const parts =
+    group === 'product'
+      ? [rating, price]
+      : group === 'software'
+        ? [data.version && `v${data.version.replace(/^v/i, '')}`, rating, price]
+        : group === 'event'
+          ? [data.startDate && formatDate(data.startDate), data.location]
+          : [published]
+
+  return parts.filter(Boolean).join(' · ') || undefined
+}
@@ -1,8 +1,12 @@
+import type { CardLayout } from '../types'
+
+type StyleObject = Record<string, string | number>
+
 function hyphenate(str: string): string {
   return str.replace(/\B([A-Z])/g, '-$1').toLowerCase()
 }
 
-function join(style: Record<string, string | number>) {
+function join(style: StyleObject) {
   return Object.entries(style)
     .map(([k, v]) => {
       if (k && v) return `${hyphenate(k)}: ${v};`
@@ -11,7 +15,7 @@ function join(style: Record<string, string | number>) {
     .join(' ')
 }
 
-function inlineStyle(style: Record<string, string | number>) {
+function inlineStyleOf(style: StyleObject) {
   return `style="${join(style)}"`
 }
 
@@ -27,71 +31,224 @@ const ellipsisStyle = (line: number) => ({
   wordBreak: 'break-word'
 })
 
+const imageOnTop = {
+  borderRadius: '12px 12px 0px 0px',
+  maxWidth: '100%',
+  width: '100%',
+  height: 'auto',
+  objectFit: 'cover'
+}
+
+/**
+ * Overrides of the default styles for each layout.
+ */
+const LAYOUT_STYLE: Record<CardLayout, Record<string, StyleObject>> = {
+  default: {},
+  compact: {
+    container: { flexWrap: 'nowrap', height: 'auto', padding: '10px 0' },
+    title: { ...ellipsisStyle(1), margin: '0 16px' }
+  },
+  large: {
+    container: {
+      flexDirection: 'column',
+      alignItems: 'stretch',
+      flexWrap: 'nowrap',
+      height: 'auto',
+      paddingBottom: '16px'
+    },
+    img: { ...imageOnTop, aspectRatio: '1.91 / 1' },
+    thumbnail: { maxWidth: '100%' },
+    thumbnailImg: { ...imageOnTop, aspectRatio: '16 / 9' },
+    texts: { flex: 'none' }
+  },
+  'text-only': {
+    container: { height: 'auto', padding: '16px 0' }
+  }
+}
+
+const descriptionStyle = {
+  ...ellipsisStyle(2),
+  opacity: 0.8,
+  fontSize: '12px',
+  lineHeight: '16px',
+  margin: '8px 16px 0px 16px'
+}
+
 /**
  * Generates complete inline styles for all link card components.
+ *
+ * @param layout - The layout of the card
  */
-export const STYLE = () => ({
-  a: inlineStyle({
-    color: 'unset !important',
-    display: 'block',
-    width: '100%',
-    textDecoration: 'none'
-  }),
-  container: inlineStyle({
-    display: 'flex',
-    alignItems: 'center',
-    flexWrap: 'wrap',
-    gap: '10px',
-    borderRadius: '12px',
-    border: `1px solid var(--vp-c-bg-soft)`,
-    backgroundColor: `var(--vp-c-bg-soft)`,
-    boxSizing: 'border-box',
-    width: '100%',
-    height: '130px',
-    transition: 'border-color 0.25s, background-color 0.25s'
-  }),
-  img: inlineStyle({
-    borderRadius: '0px 12px 12px 0px',
-    maxWidth: '40%',
-    height: '129px',
-    flexShrink: 0,
-    objectFit: 'contain',
-    overflow: 'hidden'
-  }),
-  texts: inlineStyle({
-    flex: '1 1 0%',
-    minWidth: '0'
-  }),
-  title: inlineStyle({
-    ...ellipsisStyle(2),
-    opacity: 1,
-    fontSize: '16px',
-    lineHeight: '22px',
-    margin: '0 16px 8px 16px',
-    fontWeight: 'bold'
-  }),
-  domain: inlineStyle({
-    ...ellipsisStyle(1),
-    opacity: 1,
-    fontSize: '12px',
-    lineHeight: '16px',
-    margin: '8px 16px 8px 16px',
-    textDecoration: 'underline'
-  }),
-  description: inlineStyle({
-    ...ellipsisStyle(2),
-    opacity: 0.8,
-    fontSize: '12px',
-    lineHeight: '16px',
-    margin: '8px 16px 0px 16px'
-  })
-})
+export const STYLE = (layout: CardLayout = 'default') => {
+  const overrides = LAYOUT_STYLE[layout] ?? {}
+  const inlineStyle = (key: string, style: StyleObject) =>
+    inlineStyleOf({ ...style, ...overrides[key] })
 
-export const classNames = (prefix?: string) => ({
+  return {
+    wrapper: inlineStyle('wrapper', {
+      display: 'block'
+    }),
+    a: inlineStyle('a', {
+      color: 'unset !important',
+      display: 'block',
+      width: '100%',
+      textDecoration: 'none'
+    }),
+    container: inlineStyle('container', {
+      display: 'flex',
+      alignItems: 'center',
+      flexWrap: 'wrap',
+      gap: '10px',
+      borderRadius: '12px',
+      border: `1px solid var(--vp-c-bg-soft)`,
+      backgroundColor: `var(--vp-c-bg-soft)`,
+      boxSizing: 'border-box',
+      width: '100%',
+      height: '130px',
+      transition: 'border-color 0.25s, background-color 0.25s'
+    }),
+    img: inlineStyle('img', {
+      borderRadius: '0px 12px 12px 0px',
+      maxWidth: '40%',
+      height: '129px',
+      flexShrink: 0,
+      objectFit: 'contain',
+      overflow: 'hidden'
+    }),
+    texts: inlineStyle('texts', {
+      flex: '1 1 0%',
+      minWidth: '0'
+    }),
+    title: inlineStyle('title', {
+      ...ellipsisStyle(2),
+      opacity: 1,
+      fontSize: '16px',
+      lineHeight: '22px',
+      margin: '0 16px 8px 16px',
+      fontWeight: 'bold'
+    }),
+    domain: inlineStyle('domain', {
+      ...ellipsisStyle(1),
+      opacity: 1,
+      fontSize: '12px',
+      lineHeight: '16px',
+      margin: '8px 16px 8px 16px',
+      textDecoration: 'underline'
+    }),
+    favicon: inlineStyle('favicon', {
+      display: 'inline-block',
+      width: '14px',
+      height: '14px',
+      marginRight: '6px',
+      verticalAlign: 'middle',
+      borderRadius: '2px'
+    }),
+    thumbnail: inlineStyle('thumbnail', {
+      position: 'relative',
+      display: 'block',
+      maxWidth: '40%',
+      flexShrink: 0
+    }),
+    thumbnailImg: inlineStyle('thumbnailImg', {
+      display: 'block',
+      borderRadius: '0px 12px 12px 0px',
+      maxWidth: '100%',
+      height: '129px',
+      objectFit: 'cover'
+    }),
+    play: inlineStyle('play', {
+      position: 'absolute',
+      top: '50%',
+      left: '50%',
+      transform: 'translate(-50%, -50%)',
+      width: '40px',
+      height: '40px',
+      borderRadius: '50%',
+      backgroundColor: 'rgba(0, 0, 0, 0.6)',
+      color: '#fff',
+      fontSize: '16px',
+      lineHeight: '40px',
+      textAlign: 'center'
+    }),
+    embed: (aspectRatio: string) =>
+      inlineStyle('embed', {
+        position: 'relative',
+        display: 'block',
+        width: '100%',
+        aspectRatio,
+        borderRadius: '12px',
+        overflow: 'hidden'
+      }),
+    embedFrame: inlineStyle('embedFrame', {
+      position: 'absolute',
+      inset: '0',
+      width: '100%',
+      height: '100%',
+      border: 'none'
+    }),
+    detail: inlineStyle('detail', {
+      ...ellipsisStyle(1),
+      opacity: 0.8,
+      fontSize: '12px',
+      lineHeight: '16px',
+      margin: '0 16px'
+    }),
+    description: inlineStyle('description', descriptionStyle),
+    // One line less, to make room for the detail line.
+    descriptionShort: inlineStyle('description', {
+      ...descriptionStyle,
+      ...ellipsisStyle(1)
+    })
+  }
+}
+
+/**
+ * Generates the class names of all link card components, used instead of
+ * inline styles when a class prefix is set.
+ *
+ * @param prefix - The class name prefix
+ * @param layout - The layout of the card, added to the wrapper as a modifier
+ */
+export const classNames = (
+  prefix?: string,
+  layout: CardLayout = 'default'
+) => ({
+  wrapper:
+    layout === 'default' ? `${prefix}` : `${prefix} ${prefix}--${layout}`,
+  a: `${prefix}__link`,
   container: `${prefix}__container`,
   img: `${prefix}__img`,
   texts: `${prefix}__texts`,
   title: `${prefix}__texts--title`,
   domain: `${prefix}__texts--domain`,
-  description: `${prefix}__texts--desc`
+  favicon: `${prefix}__texts--favicon`,
+  detail: `${prefix}__texts--detail`,
+  description: `${prefix}__texts--desc`,
+  descriptionShort: `${prefix}__texts--desc`,
+  thumbnail: `${prefix}__thumbnail`,
+  thumbnailImg: `${prefix}__thumbnail--img`,
+  play: `${prefix}__thumbnail--play`,
+  embed: `${prefix}__embed`,
+  embedFrame: `${prefix}__embed--frame`
+})
+
+/**
+ * Generates the attributes of the elements that hold cards outside of a
+ * paragraph: the block of a bare-URL card and the grid of a `::: linkcard`
+ * container. With a class prefix, only class names are set.
+ *
+ * @param prefix - The class name prefix
+ */
+export const blockAttrs = (prefix?: string) => ({
+  block: prefix
+    ? `class="${prefix}-block"`
+    : inlineStyleOf({ margin: '16px 0' }),
+  grid: prefix
+    ? `class="${prefix}-grid"`
+    : `class="vitepress-linkcard-grid" ${inlineStyleOf({
+        display: 'grid',
+        gridTemplateColumns: 'repeat(auto-fill, minmax(280px, 1fr))',
+        gap: '16px',
+        margin: '16px 0'
+      })}`
 })
@@ -1,19 +1,116 @@
+import type { UrlNormalizeOptions } from '../types'
+
+// Query parameters that only track where a visitor came from.
+const TRACKING_PARAMS = [
+  'utm_*',
+  'fbclid',
+  'gclid',
+  'dclid',
+  'gbraid',
+  'wbraid',
+  'msclkid',
+  'yclid',
+  'twclid',
+  'igshid',
+  'mc_cid',
+  'mc_eid',
+  '_ga',
+  '_gl',
+  '_hsenc',
+  '_hsmi',
+  'mkt_tok',
+  'ref_src',
+  'ref_url'
+]
+
 /**
- * Parses a URL string and returns a URL object.
+ * Resolves a possibly relative URL against a base URL.
  *
- * @param url - The URL string to parse
- * @returns A URL object containing the parsed components
+ * @param href - The URL to resolve, e.g. from an attribute
+ * @param base - The absolute URL to resolve against
+ * @returns The absolute URL, or undefined if it cannot be parsed
  */
-export function extractUrl(url: string) {
-  return new URL(url)
+export function resolveUrl(href: string, base: string) {
+  try {
+    return new URL(href.trim(), base).href
+  } catch {
+    return undefined
+  }
+}
+
+function matchesHost(pattern: string, host: string) {
+  return pattern.startsWith('*.')
+    ? host === pattern.slice(2) || host.endsWith(pattern.slice(1))
+    : host === pattern
 }
 
 /**
- * Removes duplicate consecutive slashes from a path string.
+ * Tests a URL against a list of hostnames (`'*.example.com'` also matches
+ * subdomains), a pattern tested against the whole URL, or a predicate.
  *
- * @param path - The path string to clean
- * @returns The cleaned path with no consecutive slashes
+ * @param match - The hostnames, pattern or predicate
+ * @param url - The URL to test
+ * @returns Whether the URL matches
  */
-export function cleanPath(path: string) {
-  return path.replace(/\/\//g, '/')
+export function matchesUrl(
+  match: string[] | RegExp | ((url: URL) => boolean),
+  url: URL
+) {
+  if (Array.isArray(match)) {
+    return match.some((host) => matchesHost(host.toLowerCase(), url.hostname))
+  }
+  return match instanceof RegExp ? match.test(url.href) : match(url)
+}
+
+function matchesParam(patterns: string[], name: string) {
+  const key = name.toLowerCase()
+  return patterns.some((pattern) => {
+    const p = pattern.toLowerCase()
+    return p.endsWith('*') ? key.startsWith(p.slice(0, -1)) : key === p
+  })
+}
+
+/**
+ * Normalizes an `http(s)` URL so that variants of the same page, such as
+ * `https://Example.com/a/?utm_source=x#top` and `https://example.com/a`,
+ * become the same string. Other URLs are returned as they are.
+ *
+ * @param url - The URL to normalize
+ * @param options - Normalization options, or `false` to return the URL as it is
+ * @returns The normalized URL
+ */
+export function normalizeUrl(
+  url: string,
+  options: boolean | UrlNormalizeOptions = true
+) {
+  if (options === false) return url
+  const {
+    stripParams = true,
+    stripHash = true,
+    stripTrailingSlash = true,
+    stripWww = false
+  } = options === true ? {} : options
+
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return url
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return url
+
+  if (stripWww) parsed.hostname = parsed.hostname.replace(/^www\./, '')
+  if (stripHash) parsed.hash = ''
+  if (stripTrailingSlash && parsed.pathname !== '/') {
+    parsed.pathname = parsed.pathname.replace(/\/+$/, '') || '/'
+  }
+
+  const params = stripParams === true ? TRACKING_PARAMS : stripParams || []
+  const names = [...parsed.searchParams.keys()].filter((name) =>
+    matchesParam(params, name)
+  )
+  // Deleting a parameter re-encodes the query, so it is only touched when needed.
+  names.forEach((name) => parsed.searchParams.delete(name))
+
+  return parsed.href
 }
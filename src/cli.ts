@@ -0,0 +1,226 @@
+import type { CacheOptions, LinkToCardPluginOptions } from './types'
+import fs from 'node:fs'
+import path from 'node:path'
+import { parseArgs } from 'node:util'
+import {
+  LinkCardError,
+  collectCardLinks,
+  fetchUrlMetadata,
+  findMarkdownFiles,
+  flushCacheStores,
+  mapConcurrent,
+  normalizeUrl,
+  parseCacheKey,
+  prefetchUrlMetadata,
+  requestUrlMetadata,
+  resolveCacheStore
+} from './assemble'
+
+const HELP = `Usage: vitepress-linkcard <command> [options]
+
+Commands:
+  prefetch [docsDir]       Fetch every uncached @: link into the cache
+  prune [docsDir]          Remove cache entries no markdown file references
+  refresh [url]            Re-fetch one URL, or every cached URL
+  refresh --stale          Re-fetch entries older than --max-age
+  check [docsDir]          Exit with 1 if a referenced URL is not cached or fails to fetch
+
+Options:
+  --cache <path>           Path of the cache file or directory
+  --store <file|directory> Kind of cache store (default: file)
+  --max-age <ms>           Age after which an entry is stale
+  --concurrency <n>        Maximum number of requests at once (default: 8)
+  --timeout <ms>           Timeout of each request
+  --offline                With check: only look at the cache, never fetch
+  --bare-urls              Also collect paragraphs made of nothing but a URL
+  --no-normalize           Use URLs as written, as with normalize: false
+  -h, --help               Show this help
+
+docsDir defaults to ./docs.`
+
+interface CardLinkReference {
+  url: string
+  file: string
+  line: number
+}
+
+function collectReferences(docsDir: string, bareUrls?: boolean) {
+  return findMarkdownFiles(docsDir).flatMap((file) =>
+    collectCardLinks(fs.readFileSync(file, 'utf-8'), { bareUrls }).map(
+      ({ url, line }): CardLinkReference => ({
+        url,
+        file: path.relative(process.cwd(), file),
+        line
+      })
+    )
+  )
+}
+
+function describeProblem(err: unknown) {
+  if (!(err instanceof LinkCardError)) {
+    return err instanceof Error ? err.message : String(err)
+  }
+  if (err.code === 'http') return `HTTP ${err.status}`
+  if (err.code === 'metadata') return 'no metadata'
+  return err.cause instanceof Error ? err.cause.message : 'request failed'
+}
+
+function toNumber(value?: string) {
+  return value === undefined ? undefined : Number(value)
+}
+
+async function main(argv: string[]) {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      cache: { type: 'string' },
+      store: { type: 'string' },
+      'max-age': { type: 'string' },
+      concurrency: { type: 'string' },
+      timeout: { type: 'string' },
+      stale: { type: 'boolean' },
+      offline: { type: 'boolean' },
+      'bare-urls': { type: 'boolean' },
+      'no-normalize': { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  })
+  const [command, target] = positionals
+
+  if (values.help || !command) {
+    console.log(HELP)
+    return 0
+  }
+
+  const cache: CacheOptions = {
+    store: values.store === 'directory' ? 'directory' : 'file',
+    path: values.cache,
+    maxAge: toNumber(values['max-age'])
+  }
+  const options: LinkToCardPluginOptions = {
+    cache,
+    normalize: !values['no-normalize'],
+    fetch: { timeout: toNumber(values.timeout) },
+    prefetch: { concurrency: toNumber(values.concurrency) }
+  }
+  const concurrency = options.prefetch?.concurrency ?? 8
+  const store = resolveCacheStore(cache)
+  const normalize = (url: string) => normalizeUrl(url, options.normalize)
+  const docsDir = path.resolve(target ?? 'docs')
+
+  switch (command) {
+    case 'prefetch': {
+      const urls = collectReferences(docsDir, values['bare-urls']).map(
+        ({ url }) => url
+      )
+      const count = await prefetchUrlMetadata(urls, {
+        ...options.prefetch,
+        fetch: options.fetch,
+        cache,
+        normalize: options.normalize
+      })
+      const missing = urls.filter((url) => !store.get(normalize(url)))
+
+      console.log(`Fetched ${count} URLs, ${new Set(missing).size} failed.`)
+      return 0
+    }
+
+    case 'prune': {
+      const referenced = new Set(
+        collectReferences(docsDir, values['bare-urls']).map((r) =>
+          normalize(r.url)
+        )
+      )
+      const unused = store
+        .keys()
+        .filter((key) => !referenced.has(parseCacheKey(key).url))
+
+      unused.forEach((key) => {
+        store.delete(key)
+        console.log(`Removed ${key}`)
+      })
+      console.log(`Removed ${unused.length} entries.`)
+      return 0
+    }
+
+    case 'refresh': {
+      if (values.stale && cache.maxAge === undefined) {
+        console.error('refresh --stale requires --max-age.')
+        return 1
+      }
+      // Entries of every language of the target URL are refreshed.
+      const keys = store
+        .keys()
+        .filter(
+          (key) => !target || parseCacheKey(key).url === normalize(target)
+        )
+      if (target && !keys.length) keys.push(normalize(target))
+      // With `--stale` only entries older than `--max-age` are requested;
+      // otherwise every one of them is.
+      const refreshCache = values.stale ? cache : { ...cache, maxAge: 0 }
+      const results = await mapConcurrent(keys, concurrency, (key) =>
+        fetchUrlMetadata(parseCacheKey(key).url, {
+          ...options,
+          cache: refreshCache,
+          lang: parseCacheKey(key).lang
+        })
+      )
+      const failed = results.filter((metadata) => !metadata).length
+
+      console.log(`Refreshed ${keys.length - failed} URLs, ${failed} failed.`)
+      return failed ? 1 : 0
+    }
+
+    case 'check': {
+      const references = collectReferences(docsDir, values['bare-urls'])
+      const urls = [...new Set(references.map(({ url }) => url))]
+      const problems = new Map<string, string>()
+
+      // Entries of any language count as cached.
+      const cached = new Set(store.keys().map((key) => parseCacheKey(key).url))
+      urls
+        .filter((url) => !cached.has(normalize(url)))
+        .forEach((url) => problems.set(url, 'not cached'))
+
+      // URLs are requested the way the plugin gets their metadata, through
+      // provider adapters and normalization, into a cache that is not saved.
+      if (!values.offline) {
+        await mapConcurrent(urls, concurrency, async (url) => {
+          try {
+            await requestUrlMetadata(url, {
+              ...options,
+              cache: { store: 'memory' }
+            })
+          } catch (err) {
+            problems.set(url, describeProblem(err))
+          }
+        })
+      }
+
+      references
+        .filter(({ url }) => problems.has(url))
+        .forEach(({ url, file, line }) =>
+          console.error(`${file}:${line}: ${url} (${problems.get(url)})`)
+        )
+      console.log(
+        `Checked ${urls.length} URLs, ${problems.size} with problems.`
+      )
+      return problems.size ? 1 : 0
+    }
+
+    default:
+      console.error(`Unknown command "${command}".\n\n${HELP}`)
+      return 1
+  }
+}
+
+main(process.argv.slice(2))
+  .then((code) => {
+    flushCacheStores()
+    process.exitCode = code
+  })
+  .catch((err) => {
+    console.error(err instanceof Error ? err.message : err)
+    process.exitCode = 1
+  })
@@ -1,3 +1,9 @@
 export * from './api'
+export * from './assemble/cache-store'
+export * from './assemble/errors'
+export * from './assemble/escape'
+export { flushCacheStores } from './assemble/metadata'
 export * from './link-to-card-plugin'
+export * from './providers'
 export * from './types'
+export * from './vite-plugin'
@@ -1,7 +1,48 @@
-import type { LinkToCardPlugin } from './types'
+import type {
+  CardLayout,
+  EmbedMode,
+  LinkToCardPlugin,
+  SiteOptions,
+  UrlMetadata
+} from './types'
+import type StateBlock from 'markdown-it/lib/rules_block/state_block'
 import type Token from 'markdown-it/lib/token'
+import path from 'node:path'
 import { isFunction } from '@luckrya/utility'
-import { getUrlMetadata, generateCardDomFragment } from './assemble'
+import {
+  canonicalCardUrl,
+  describeUrlRequest,
+  escapeAttr,
+  escapeHtml,
+  fallbackMetadata,
+  getPageMetadata,
+  getUrlMetadata,
+  generateCardBlock,
+  generateCardComponent,
+  generateCardDomFragment,
+  isBareCardUrl,
+  isCardGridClose,
+  isCardGridUrl,
+  isInternalLink,
+  parseCardGridInfo,
+  parseCardLinkHref,
+  recordCardFailure,
+  recordCardReport,
+  resolvePageLang,
+  resolvePageLink,
+  sanitizeUrl,
+  selfHostImages
+} from './assemble'
+
+/**
+ * The part of the markdown-it env that VitePress passes while rendering a page.
+ */
+interface MarkdownEnv {
+  path?: string
+  relativePath?: string
+  cleanUrls?: boolean
+  localeIndex?: string
+}
 
 /**
  * Markdown-it plugin that converts specially-formatted links into rich link preview cards.
@@ -10,85 +51,313 @@ import { getUrlMetadata, generateCardDomFragment } from './assemble'
  * @param pluginOptions - Configuration options for the plugin
  */
 export const linkToCardPlugin: LinkToCardPlugin = (md, pluginOptions = {}) => {
-  function parseCardLinkHref(href?: string) {
-    const tagRegexp = new RegExp(`^(${'@'}:)([a-zA-Z0-9]+.*)`)
-    const match = href?.match(tagRegexp)
+  function internalCard(url: string, env: MarkdownEnv = {}) {
+    const site: SiteOptions = {
+      ...pluginOptions.site,
+      srcDir: pluginOptions.site?.srcDir ?? srcDirFromEnv(env),
+      cleanUrls: pluginOptions.site?.cleanUrls ?? env.cleanUrls
+    }
+    const page = resolvePageLink(url, site, env.relativePath)
+
+    return page && { href: page.href, metadata: getPageMetadata(page, site) }
+  }
+
+  function pageLang(env: MarkdownEnv = {}) {
+    return resolvePageLang(
+      pluginOptions.site,
+      env.relativePath,
+      env.localeIndex
+    )
+  }
+
+  function remoteCard(url: string, env?: MarkdownEnv) {
+    const options = { ...pluginOptions, lang: pageLang(env) }
+    const metadata = getUrlMetadata(url, options)
 
     return {
-      isCardLink: !!match,
-      url: match?.[2]
+      href:
+        metadata && pluginOptions.linkToCanonical
+          ? canonicalCardUrl(url, metadata, options)
+          : url,
+      metadata
     }
   }
 
   function assembleCardTpl(options: {
     url: string
-    tokens: Token[]
-    i: number
+    layout?: CardLayout
+    embed?: EmbedMode
+    env?: MarkdownEnv
+    line?: number
+    linkTitle: string
   }) {
-    const urlMetadata = getUrlMetadata(options.url)
+    const internal = isInternalLink(options.url)
+    const card = internal
+      ? internalCard(options.url, options.env)
+      : remoteCard(options.url, options.env)
+    const { linkTitle } = options
+    const file = options.env?.relativePath
+    let urlMetadata = card?.metadata
+    const failure = !card
+      ? 'page not found'
+      : !urlMetadata
+        ? pluginOptions.mode === 'offline'
+          ? 'not cached'
+          : 'no metadata'
+        : undefined
 
-    if (urlMetadata) {
-      ignoreRestToken(options.tokens, options.i)
+    if (failure) {
+      recordCardFailure({
+        url: options.url,
+        file,
+        line: options.line,
+        reason: failure
+      })
+
+      const { fallback = true } = pluginOptions
+      if (card && fallback) {
+        urlMetadata = isFunction(fallback)
+          ? fallback(options.url, linkTitle)
+          : fallbackMetadata(options.url, linkTitle)
+      }
+    }
+
+    if (pluginOptions.report) {
+      const missing = missingFields(card?.metadata)
+      recordCardReport({
+        url: options.url,
+        file,
+        line: options.line,
+        ...(internal
+          ? { finalUrl: card?.href, redirects: [], cache: 'none' }
+          : describeUrlRequest(options.url, {
+              ...pluginOptions,
+              lang: pageLang(options.env)
+            })),
+        complete: !missing.length,
+        missing,
+        rendered:
+          !card || !urlMetadata ? 'plain link' : failure ? 'fallback' : 'card',
+        failure
+      })
+    }
+
+    if (card && urlMetadata) {
+      if (pluginOptions.images?.selfHost) {
+        urlMetadata = selfHostImages(urlMetadata, pluginOptions)
+      }
 
       const cardDomOptions = {
-        href: options.url,
-        linkTitle: joinLinkTitle(options.tokens),
-        target: pluginOptions.target || '_blank',
-        classPrefix: pluginOptions.classPrefix
+        href: card.href,
+        linkTitle,
+        target: pluginOptions.target || (internal ? '_self' : '_blank'),
+        classPrefix: pluginOptions.classPrefix,
+        layout: options.layout ?? pluginOptions.layout ?? 'default',
+        embed: options.embed ?? pluginOptions.embed ?? 'card'
       }
 
+      if (pluginOptions.output === 'component') {
+        return generateCardComponent(
+          urlMetadata,
+          cardDomOptions,
+          pluginOptions.componentName
+        )
+      }
       return isFunction(pluginOptions.render)
         ? pluginOptions.render(urlMetadata, cardDomOptions)
         : generateCardDomFragment(urlMetadata, cardDomOptions)
     }
   }
 
-  md.renderer.renderInline = (tokens, rootOptions, env) => {
-    let result = ''
+  // Replaces each `@:` link, from its `link_open` to the matching `link_close`,
+  // with a single token, leaving the rest of the paragraph as it is.
+  md.core.ruler.push('linkcard_inline', (state) => {
+    state.tokens.forEach((blockToken) => {
+      if (blockToken.type !== 'inline' || !blockToken.children) return
+      // Inline tokens have no line numbers; count them for failure reports.
+      let line = blockToken.map ? blockToken.map[0] + 1 : undefined
+      const children: Token[] = []
+
+      for (let i = 0; i < blockToken.children.length; i++) {
+        const token = blockToken.children[i]
+        const href = token.type === 'link_open' ? token.attrGet('href') : null
+        const { isCardLink, url, layout, embed } = parseCardLinkHref(
+          href ?? undefined
+        )
 
-    for (let i = 0; i < tokens.length; i++) {
-      const currentToken = tokens[i]
-      const ruleFunction = md.renderer.rules[currentToken.type]
+        if (!isCardLink || !url) {
+          if (line && isLineBreak(token)) line++
+          children.push(token)
+          continue
+        }
 
-      if (currentToken.hidden) {
-        result += ''
-      } else if (isFunction(ruleFunction)) {
-        result += ruleFunction(tokens, i, rootOptions, env, md.renderer)
-      } else {
-        result += md.renderer.renderToken(tokens, i, rootOptions)
+        const close = findLinkClose(blockToken.children, i)
+        const link = blockToken.children.slice(i, close + 1)
+        const card = new state.Token('linkcard_inline', '', 0)
+        card.meta = {
+          url,
+          layout,
+          embed,
+          line,
+          linkTitle: joinLinkTitle(link),
+          link
+        }
+        children.push(card)
+
+        if (line) line += link.filter(isLineBreak).length
+        i = close
       }
+
+      blockToken.children = children
+    })
+  })
+
+  // A plain link, for cards outside of `@:` links that cannot be built.
+  function plainLink(url: string) {
+    const href = sanitizeUrl(url)
+    const target = pluginOptions.target || '_blank'
+
+    return `<p v-pre><a${href ? ` href="${escapeAttr(href)}"` : ''} target="${escapeAttr(target)}">${escapeHtml(url)}</a></p>`
+  }
+
+  // A paragraph made of nothing but a URL, like on Zenn and Qiita.
+  md.block.ruler.before(
+    'paragraph',
+    'linkcard_bare_url',
+    (state, startLine, endLine, silent) => {
+      // Not in list items, where URLs are usually lists of links.
+      if (state.listIndent !== -1) return false
+      if (state.sCount[startLine] - state.blkIndent >= 4) return false
+
+      const url = lineText(state, startLine)
+      const nextLine = startLine + 1
+      if (nextLine < endLine && !state.isEmpty(nextLine)) return false
+      if (!isBareCardUrl(url, pluginOptions.bareUrls)) return false
+      if (silent) return true
+
+      const token = state.push('linkcard', '', 0)
+      token.map = [startLine, nextLine]
+      token.meta = { url, line: startLine + 1 }
+      state.line = nextLine
+      return true
     }
+  )
+
+  // `::: linkcard` containers with one URL per line, rendered as a grid.
+  md.block.ruler.before(
+    'fence',
+    'linkcard_grid',
+    (state, startLine, endLine, silent) => {
+      if (state.sCount[startLine] - state.blkIndent >= 4) return false
+      const info = parseCardGridInfo(lineText(state, startLine))
+      if (!info) return false
+      if (silent) return true
+
+      const cards: { url: string; line: number }[] = []
+      let nextLine = startLine + 1
+      let closed = false
+      for (; nextLine < endLine; nextLine++) {
+        const text = lineText(state, nextLine)
+        if (isCardGridClose(text)) {
+          closed = true
+          break
+        }
+        if (isCardGridUrl(text)) cards.push({ url: text, line: nextLine + 1 })
+      }
 
-    return result
+      const token = state.push('linkcard_grid', 'div', 0)
+      token.block = true
+      token.map = [startLine, closed ? nextLine + 1 : nextLine]
+      token.meta = { cards, layout: info.layout }
+      state.line = token.map[1]
+      return true
+    },
+    { alt: ['paragraph', 'reference', 'blockquote', 'list'] }
+  )
+
+  md.renderer.rules.linkcard = (tokens, i, _, env) => {
+    const { url, line } = tokens[i].meta
+    const card = assembleCardTpl({ url, env, line, linkTitle: '' })
+
+    return card
+      ? generateCardBlock([card], { classPrefix: pluginOptions.classPrefix })
+      : `${plainLink(url)}\n`
   }
 
-  md.renderer.rules.link_open = (tokens, i, rootOptions, env, self) => {
-    const token = tokens[i]
-    const isLinkOpenToken = token.tag === 'a' && token.type === 'link_open'
-    const href = token.attrs?.filter((attr) => attr.includes('href'))[0]?.[1]
-    const { url, isCardLink } = parseCardLinkHref(href)
+  md.renderer.rules.linkcard_grid = (tokens, i, _, env) => {
+    const { cards, layout } = tokens[i].meta as {
+      cards: { url: string; line: number }[]
+      layout?: CardLayout
+    }
+
+    return generateCardBlock(
+      cards.map(
+        ({ url, line }) =>
+          assembleCardTpl({ url, layout, env, line, linkTitle: '' }) ??
+          plainLink(url)
+      ),
+      { classPrefix: pluginOptions.classPrefix, grid: true }
+    )
+  }
 
-    if (isLinkOpenToken && isCardLink && url) {
-      const card = assembleCardTpl({ url, tokens, i })
-      if (card) return card
+  md.renderer.rules.linkcard_inline = (tokens, i, rootOptions, env, self) => {
+    const { link, ...options } = tokens[i].meta as {
+      url: string
+      layout?: CardLayout
+      embed?: EmbedMode
+      line?: number
+      linkTitle: string
+      link: Token[]
     }
+    const card = assembleCardTpl({ ...options, env })
+    if (card) return card
 
-    return self.renderToken(tokens, i, rootOptions)
+    // Without a card, the link is rendered as a plain link to its URL,
+    // which markdown-it has not validated since it starts with `@:`.
+    const href = sanitizeUrl(options.url)
+    if (href) link[0].attrSet('href', href)
+    else
+      link[0].attrs = link[0].attrs?.filter(([name]) => name !== 'href') ?? null
+    return self.renderInline(link, rootOptions, env)
   }
 }
 
-function ignoreRestToken(tokens: Token[], i: number) {
-  tokens.forEach((token, index) => {
-    if (index !== i) token.hidden = true
-  })
+function srcDirFromEnv(env: MarkdownEnv) {
+  if (!env.path || !env.relativePath) return undefined
+  const depth = env.relativePath.split('/').length - 1
+
+  return path.resolve(path.dirname(env.path), ...Array(depth).fill('..'))
 }
 
-function joinLinkTitle(tokens: Token[]) {
-  return tokens
-    .map(({ hidden, content }) => {
-      if (hidden) return content
-      return ''
-    })
+function lineText(state: StateBlock, line: number) {
+  return state.src
+    .slice(state.bMarks[line] + state.tShift[line], state.eMarks[line])
+    .trim()
+}
+
+function isLineBreak(token: Token) {
+  return token.type === 'softbreak' || token.type === 'hardbreak'
+}
+
+function findLinkClose(tokens: Token[], open: number) {
+  let level = 0
+
+  for (let i = open; i < tokens.length; i++) {
+    if (tokens[i].type === 'link_open') level++
+    if (tokens[i].type === 'link_close' && --level === 0) return i
+  }
+  return tokens.length - 1
+}
+
+function missingFields(metadata?: UrlMetadata | null) {
+  return (['title', 'description', 'image'] as const).filter(
+    (key) => !metadata?.[key]
+  )
+}
+
+function joinLinkTitle(link: Token[]) {
+  return link
+    .map(({ content }) => content)
     .filter(Boolean)
     .join('')
 }
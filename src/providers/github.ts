@@ -0,0 +1,43 @@
+import type { ProviderAdapter } from '../types'
+
+const IssueTitleReg = /^(.*) · (?:Issue|Pull Request) #(\d+) · (.+)$/
+
+/**
+ * Trims the repository name and GitHub boilerplate out of titles and descriptions.
+ *
+ * | Page    | Title before                              | Title after |
+ * | ------- | ----------------------------------------- | ----------- |
+ * | Repo    | `GitHub - owner/repo: Short description`  | `owner/repo` |
+ * | Issue   | `Fix it · Issue #12 · owner/repo`         | `Fix it`, with `owner/repo #12` as site name |
+ *
+ * @returns The adapter
+ */
+export function githubProvider(): ProviderAdapter {
+  return {
+    name: 'github',
+    match: ['github.com', 'www.github.com'],
+    transform(data) {
+      const issue = data.title?.match(IssueTitleReg)
+
+      if (issue) {
+        return {
+          ...data,
+          title: issue[1],
+          siteName: `${issue[3]} #${issue[2]}`
+        }
+      }
+
+      const title =
+        data.title?.split(':')[0].replace('GitHub - ', '') || data.title
+      const description = data.description
+        ?.replace(` - ${title}`, '')
+        .replace(
+          `Contribute to ${title} development by creating an account on GitHub.`,
+          ''
+        )
+        .trim()
+
+      return { ...data, title, description }
+    }
+  }
+}
@@ -0,0 +1,48 @@
+import type { ProviderAdapter } from '../types'
+import { matchesUrl } from '../assemble/url'
+import { githubProvider } from './github'
+import { npmProvider } from './npm'
+import { twitterProvider } from './twitter'
+import { wikipediaProvider } from './wikipedia'
+import { youtubeProvider } from './youtube'
+
+export {
+  githubProvider,
+  npmProvider,
+  twitterProvider,
+  wikipediaProvider,
+  youtubeProvider
+}
+
+/**
+ * The adapters used when no user adapter matches a URL.
+ */
+export const BUILTIN_PROVIDERS: ProviderAdapter[] = [
+  githubProvider(),
+  npmProvider(),
+  youtubeProvider(),
+  wikipediaProvider(),
+  twitterProvider()
+]
+
+/**
+ * Finds the first adapter that matches a URL, trying user adapters before the built-in ones.
+ *
+ * @param url - The URL of the card
+ * @param providers - User adapters
+ * @returns The matching adapter and the parsed URL, or undefined if none matches
+ */
+export function findProvider(url: string, providers: ProviderAdapter[] = []) {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return undefined
+  }
+
+  const adapter = [...providers, ...BUILTIN_PROVIDERS].find(({ match }) =>
+    matchesUrl(match, parsed)
+  )
+
+  return adapter && { adapter, url: parsed }
+}
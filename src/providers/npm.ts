@@ -0,0 +1,47 @@
+import type { ProviderAdapter } from '../types'
+import { parseJson, str } from './utils'
+
+const PackagePathReg = /^\/package\/((?:@[^/]+\/)?[^/]+)/
+
+const NPM_IMAGE =
+  'https://static.npmjs.com/338e4905a2684ca96e08c7780fc68412.png'
+
+/**
+ * Builds cards for npm package pages from the registry, since npmjs.com
+ * often refuses requests from bots.
+ *
+ * @param options - `registry` is the base URL of the registry API
+ * @returns The adapter
+ */
+export function npmProvider(
+  options: { registry?: string } = {}
+): ProviderAdapter {
+  const registry = (options.registry ?? 'https://registry.npmjs.org').replace(
+    /\/$/,
+    ''
+  )
+
+  return {
+    name: 'npm',
+    match: (url) =>
+      (url.hostname === 'www.npmjs.com' || url.hostname === 'npmjs.com') &&
+      PackagePathReg.test(url.pathname),
+    resolveUrl(url) {
+      const name = decodeURIComponent(url.pathname.match(PackagePathReg)![1])
+      return `${registry}/${name.replace('/', '%2F')}/latest`
+    },
+    parse(result) {
+      const data = parseJson(result)
+      const name = str(data?.name)
+      if (!data || !name) return null
+
+      return {
+        title: name,
+        description: str(data.description),
+        logo: NPM_IMAGE,
+        siteName: `npm · v${str(data.version) ?? 'latest'}`,
+        type: 'package'
+      }
+    }
+  }
+}
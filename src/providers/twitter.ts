@@ -0,0 +1,58 @@
+import type { ProviderAdapter } from '../types'
+import { tokenizeHtml } from '../assemble/html-tokenizer'
+import { parseJson, str } from './utils'
+
+const StatusPathReg = /^\/[^/]+\/status\/\d+/
+
+const X_FAVICON = 'https://abs.twimg.com/favicons/twitter.3.ico'
+
+function paragraphText(html: string) {
+  let depth = 0
+  let text = ''
+
+  for (const token of tokenizeHtml(html)) {
+    if (token.type === 'start' && token.name === 'p') depth++
+    else if (token.type === 'end' && token.name === 'p') depth--
+    else if (token.type === 'start' && token.name === 'br' && depth)
+      text += '\n'
+    else if (token.type === 'text' && depth) text += token.text
+  }
+  return text.trim() || undefined
+}
+
+/**
+ * Builds cards for posts on X/Twitter from the publish oEmbed endpoint,
+ * since the site itself serves no metadata to bots.
+ *
+ * @param options - `endpoint` is the URL of the oEmbed endpoint
+ * @returns The adapter
+ */
+export function twitterProvider(
+  options: { endpoint?: string } = {}
+): ProviderAdapter {
+  const endpoint = options.endpoint ?? 'https://publish.twitter.com/oembed'
+
+  return {
+    name: 'twitter',
+    match: (url) =>
+      /(^|\.)(twitter|x)\.com$/.test(url.hostname) &&
+      StatusPathReg.test(url.pathname),
+    resolveUrl: (url) =>
+      `${endpoint}?omit_script=true&dnt=true&url=${encodeURIComponent(url.href)}`,
+    parse(result) {
+      const data = parseJson(result)
+      const author = str(data?.author_name)
+      if (!data || !author) return null
+
+      return {
+        title: `${author} on X`,
+        description: paragraphText(str(data.html) ?? ''),
+        logo: X_FAVICON,
+        author,
+        favicon: X_FAVICON,
+        siteName: 'X',
+        type: 'social'
+      }
+    }
+  }
+}
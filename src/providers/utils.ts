@@ -0,0 +1,30 @@
+import type { FetchResult } from '../types'
+import { isPureObject } from '@luckrya/utility'
+
+/**
+ * Parses the body of a successful JSON response.
+ *
+ * @param result - The response
+ * @returns The parsed object, or undefined if the response is not a `200` or not a JSON object
+ */
+export function parseJson(
+  result: FetchResult
+): Record<string, unknown> | undefined {
+  if (result.status !== 200) return undefined
+  try {
+    const data = JSON.parse(result.body)
+    return isPureObject(data) ? data : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Returns a value if it is a non-empty string.
+ *
+ * @param value - Any value
+ * @returns The string, or undefined
+ */
+export function str(value: unknown) {
+  return typeof value === 'string' && value ? value : undefined
+}
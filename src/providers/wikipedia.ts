@@ -0,0 +1,49 @@
+import type { ProviderAdapter } from '../types'
+import { parseJson, str } from './utils'
+
+/**
+ * Builds cards for Wikipedia articles from the REST API page summary,
+ * which has a clean extract in place of the generic site description.
+ *
+ * @param options - `endpoint` is the base URL of the REST API; `{lang}` is
+ *   replaced with the language subdomain of the article
+ * @returns The adapter
+ */
+export function wikipediaProvider(
+  options: { endpoint?: string } = {}
+): ProviderAdapter {
+  const endpoint =
+    options.endpoint ?? 'https://{lang}.wikipedia.org/api/rest_v1'
+
+  return {
+    name: 'wikipedia',
+    match: (url) =>
+      /(^|\.)wikipedia\.org$/.test(url.hostname) &&
+      url.pathname.startsWith('/wiki/'),
+    resolveUrl(url) {
+      const lang = url.hostname.split('.')[0]
+      const title = url.pathname.slice('/wiki/'.length)
+      return `${endpoint.replace('{lang}', lang)}/page/summary/${title}`
+    },
+    parse(result) {
+      const data = parseJson(result)
+      const title = str(data?.title)
+      if (!data || !title) return null
+
+      const thumbnail = data.thumbnail as Record<string, unknown> | undefined
+      const image = str(thumbnail?.source)
+      return {
+        title,
+        description: str(data.extract) ?? str(data.description),
+        logo:
+          image ?? 'https://www.wikipedia.org/static/apple-touch/wikipedia.png',
+        image,
+        imageWidth: Number(thumbnail?.width) || undefined,
+        imageHeight: Number(thumbnail?.height) || undefined,
+        favicon: 'https://www.wikipedia.org/static/favicon/wikipedia.ico',
+        siteName: 'Wikipedia',
+        type: 'article'
+      }
+    }
+  }
+}
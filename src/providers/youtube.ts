@@ -0,0 +1,44 @@
+import type { OEmbedData, ProviderAdapter } from '../types'
+import { parseJson, str } from './utils'
+
+/**
+ * Builds cards for YouTube videos from the YouTube oEmbed endpoint.
+ *
+ * @param options - `endpoint` is the URL of the oEmbed endpoint
+ * @returns The adapter
+ */
+export function youtubeProvider(
+  options: { endpoint?: string } = {}
+): ProviderAdapter {
+  const endpoint = options.endpoint ?? 'https://www.youtube.com/oembed'
+
+  return {
+    name: 'youtube',
+    match: (url) =>
+      url.hostname === 'youtu.be' ||
+      (/(^|\.)youtube\.com$/.test(url.hostname) &&
+        (url.pathname === '/watch' || url.pathname.startsWith('/shorts/'))),
+    resolveUrl: (url) =>
+      `${endpoint}?format=json&url=${encodeURIComponent(url.href)}`,
+    parse(result) {
+      const data = parseJson(result)
+      const title = str(data?.title)
+      if (!data || !title) return null
+
+      const thumbnail = str(data.thumbnail_url)
+      return {
+        title,
+        description: str(data.author_name),
+        logo: thumbnail,
+        image: thumbnail,
+        imageWidth: Number(data.thumbnail_width) || undefined,
+        imageHeight: Number(data.thumbnail_height) || undefined,
+        author: str(data.author_name),
+        favicon: 'https://www.youtube.com/favicon.ico',
+        siteName: 'YouTube',
+        type: 'video',
+        oembed: data as unknown as OEmbedData
+      }
+    }
+  }
+}
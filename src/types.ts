@@ -37,6 +37,8 @@ export interface LinkToCardPluginOptions {
   /**
    * CSS class name prefix for the card DOM elements.
    * When set, no inline styles are injected; only the class names are applied.
+   * Use `'vitepress-linkcard'` together with the shipped
+   * `vitepress-linkcard/styles/linkcard.css` for the default look.
    *
    * @example `'my-docs__link-card'`
    */
@@ -47,6 +49,780 @@ export interface LinkToCardPluginOptions {
    * When provided, this function is used instead of the default card renderer.
    */
   render?: CardDomRender
+
+  /**
+   * What cards are rendered as. In `'component'` output, `render` is not used.
+   * @defaultValue `'html'`
+   */
+  output?: CardOutput
+
+  /**
+   * The name of the card component in `'component'` output.
+   * @defaultValue `'LinkCard'`
+   */
+  componentName?: string
+
+  /**
+   * Options for the HTTP requests that fetch page metadata.
+   */
+  fetch?: FetchOptions
+
+  /**
+   * Options for the prefetch pass of the Vite plugin (`linkToCardVitePlugin`).
+   */
+  prefetch?: PrefetchOptions
+
+  /**
+   * Options for the metadata cache.
+   */
+  cache?: CacheOptions
+
+  /**
+   * Adapters for specific sites. They are tried before the built-in ones
+   * for GitHub, npm, YouTube, Wikipedia and X/Twitter.
+   */
+  providers?: ProviderAdapter[]
+
+  /**
+   * Options for downloading card images and serving them from the site itself.
+   */
+  images?: ImageOptions
+
+  /**
+   * Whether to render a fallback card for a link whose metadata cannot be
+   * fetched, instead of a plain link. The fallback card shows the link text,
+   * the domain and a generic icon. Pass a function to build it yourself.
+   * The link is reported as a failed card either way.
+   * @defaultValue `true`
+   */
+  fallback?: boolean | FallbackCard
+
+  /**
+   * What to do when a card cannot be built.
+   * @defaultValue `'warn'`
+   */
+  mode?: BuildMode
+
+  /**
+   * The VitePress site, for cards of its own pages such as `[Intro](@:/guide/intro)`.
+   */
+  site?: SiteOptions
+
+  /**
+   * The layout of the cards. It can be overridden per link with `@compact:`,
+   * `@large:`, `@text-only:` or `@default:` in place of `@:`.
+   * @defaultValue `'default'`
+   */
+  layout?: CardLayout
+
+  /**
+   * How links with oEmbed data are displayed. It can be overridden per link
+   * with `@card:`, `@thumbnail:` or `@embed:` in place of `@:`.
+   * @defaultValue `'card'`
+   */
+  embed?: EmbedMode
+
+  /**
+   * Options for oEmbed discovery.
+   */
+  oembed?: OEmbedOptions
+
+  /**
+   * Whether a paragraph made of nothing but an `http(s)` URL becomes a card.
+   * Pass patterns to turn only some URLs into cards.
+   * @defaultValue `false`
+   */
+  bareUrls?: boolean | BareUrlOptions
+
+  /**
+   * Whether the Vite plugin (`linkToCardVitePlugin`) writes a report of every
+   * card rendered during the build, for reviewing broken and moved links.
+   * @defaultValue `false`
+   */
+  report?: boolean | ReportOptions
+
+  /**
+   * How URLs are normalized before they are fetched and used as cache keys,
+   * so that variants of the same URL share one request and one cache entry.
+   * Pass `false` to use URLs as written.
+   * @defaultValue `true` - Tracking parameters, fragments and trailing slashes are removed
+   */
+  normalize?: boolean | UrlNormalizeOptions
+
+  /**
+   * Whether cards link to the canonical URL of the page, from
+   * `<link rel="canonical">` or `og:url`, or else to the URL the page was
+   * finally served from after redirects, instead of the URL as written.
+   * @defaultValue `false`
+   */
+  linkToCanonical?: boolean
+}
+
+/**
+ * How URLs are normalized. The scheme and host are always lower-cased, and
+ * default ports are removed.
+ *
+ * @example
+ * ```typescript
+ * markdownIt.use(linkToCardPlugin, {
+ *   normalize: { stripParams: ['utm_*', 'ref'], stripWww: true }
+ * })
+ * ```
+ */
+export interface UrlNormalizeOptions {
+  /**
+   * Query parameters to remove. A name ending in `*` matches every parameter
+   * starting with the rest. `true` removes common tracking parameters such as
+   * `utm_*`, `fbclid` and `gclid`, and `false` keeps every parameter.
+   * @defaultValue `true`
+   */
+  stripParams?: boolean | string[]
+
+  /**
+   * Whether the fragment (`#section`) is removed.
+   * @defaultValue `true`
+   */
+  stripHash?: boolean
+
+  /**
+   * Whether trailing slashes are removed from the path, except from the root path.
+   * @defaultValue `true`
+   */
+  stripTrailingSlash?: boolean
+
+  /**
+   * Whether a leading `www.` is removed from the host.
+   * @defaultValue `false`
+   */
+  stripWww?: boolean
+}
+
+/**
+ * What cards are rendered as.
+ *
+ * - `'html'`: HTML built by the plugin, or by `render`
+ * - `'component'`: a tag of a Vue component, such as
+ *   `<LinkCard :data="…" href="…" … />`, with the metadata as props. Register
+ *   the component in the theme with `enhanceAppWithLinkCard` from
+ *   `vitepress-linkcard/client`, or register your own under the same name.
+ */
+export type CardOutput = 'html' | 'component'
+
+/**
+ * Which bare URLs become cards.
+ *
+ * Each pattern is a list of hostnames (`'*.example.com'` also matches
+ * subdomains), a pattern tested against the whole URL, or a function.
+ *
+ * @example
+ * ```typescript
+ * markdownIt.use(linkToCardPlugin, {
+ *   bareUrls: { include: ['github.com', '*.github.io'], exclude: /\.pdf$/ }
+ * })
+ * ```
+ */
+export interface BareUrlOptions {
+  /**
+   * URLs that become cards.
+   * @defaultValue Every URL
+   */
+  include?: string[] | RegExp | ((url: URL) => boolean)
+
+  /**
+   * URLs that stay plain paragraphs, even if they match `include`.
+   */
+  exclude?: string[] | RegExp | ((url: URL) => boolean)
+}
+
+/**
+ * Options for self-hosted card images.
+ *
+ * Downloaded images are kept in a cache directory with content-hashed names,
+ * and the Vite plugin (`linkToCardVitePlugin`) copies the ones in use into the
+ * build output and serves them in development.
+ *
+ * @example
+ * ```typescript
+ * markdownIt.use(linkToCardPlugin, {
+ *   images: { selfHost: true, placeholder: '/card-placeholder.png' }
+ * })
+ * ```
+ */
+export interface ImageOptions {
+  /**
+   * Whether to download card images instead of linking to them on other sites.
+   * @defaultValue `false`
+   */
+  selfHost?: boolean
+
+  /**
+   * The directory downloaded images are cached in.
+   * @defaultValue `'docs/.linkcard_images'`, next to the default metadata cache
+   */
+  dir?: string
+
+  /**
+   * The path under the site root that images are served from. `site.base` is prepended.
+   * @defaultValue `'assets/linkcard/'`
+   */
+  publicPath?: string
+
+  /**
+   * The image shown when neither the image nor the favicon of a page can be downloaded.
+   * Without it, such cards have no image.
+   */
+  placeholder?: string
+}
+
+/**
+ * Builds the metadata of a fallback card for a link whose metadata cannot be fetched.
+ *
+ * @param url - The URL of the link
+ * @param linkTitle - The text of the markdown link
+ * @returns The metadata to render, or null to render a plain link
+ *
+ * @example
+ * ```typescript
+ * const fallback: FallbackCard = (url, linkTitle) => ({
+ *   title: linkTitle,
+ *   siteName: new URL(url).hostname,
+ *   favicon: `https://icons.example.com/${new URL(url).hostname}.png`
+ * })
+ * ```
+ */
+export type FallbackCard = (
+  url: string,
+  linkTitle: string
+) => UrlMetadata | null | undefined
+
+/**
+ * How the plugin handles the network and cards that cannot be built.
+ *
+ * - `'warn'`: fetches uncached links, and lists the cards that cannot be
+ *   built at the end of the build
+ * - `'offline'`: never fetches; only cached metadata is used
+ * - `'strict'`: like `'warn'`, but the build fails if any card cannot be built
+ *
+ * The list at the end of the build and the failure in `'strict'` mode are
+ * done by the Vite plugin (`linkToCardVitePlugin`).
+ */
+export type BuildMode = 'warn' | 'offline' | 'strict'
+
+/**
+ * Why no metadata could be obtained for a URL.
+ *
+ * - `'fetch'`: the request failed, e.g. with a network error or a timeout
+ * - `'http'`: the server answered with an error status
+ * - `'metadata'`: the response had no usable metadata
+ * - `'offline'`: the URL is not cached and `mode` is `'offline'`
+ */
+export type LinkCardErrorCode = 'fetch' | 'http' | 'metadata' | 'offline'
+
+/**
+ * A card link that could not be turned into a card.
+ */
+export interface CardFailure {
+  /**
+   * The URL of the link, without the `@:` prefix.
+   */
+  url: string
+
+  /**
+   * The path of the markdown file containing the link, relative to the source directory.
+   */
+  file?: string
+
+  /**
+   * The 1-based line number of the link in the file.
+   */
+  line?: number
+
+  /**
+   * Why the card could not be built.
+   */
+  reason: string
+}
+
+/**
+ * Options for the build report of the Vite plugin (`linkToCardVitePlugin`).
+ *
+ * @example
+ * ```typescript
+ * markdownIt.use(linkToCardPlugin, {
+ *   report: { dir: 'reports/linkcard', formats: ['json', 'html'] }
+ * })
+ * ```
+ */
+export interface ReportOptions {
+  /**
+   * The directory the report files are written to, as `report.json`,
+   * `report.md` and `report.html`.
+   * @defaultValue `'docs/.linkcard_report'`, next to the default metadata cache
+   */
+  dir?: string
+
+  /**
+   * The files to write.
+   * @defaultValue `['json', 'markdown']`
+   */
+  formats?: ReportFormat[]
+}
+
+/**
+ * A file format of the build report.
+ */
+export type ReportFormat = 'json' | 'markdown' | 'html'
+
+/**
+ * Where the metadata of a card came from.
+ *
+ * - `'hit'`: the cache, without a request
+ * - `'miss'`: a request, as the URL was not cached
+ * - `'stale'`: a request, as the cached entry was stale
+ * - `'none'`: neither; the card is of an internal page, the metadata came
+ *   from a provider adapter, or the URL is not cached in `'offline'` mode
+ */
+export type CardCacheStatus = 'hit' | 'miss' | 'stale' | 'none'
+
+/**
+ * What was rendered in place of a link.
+ *
+ * - `'card'`: a card built from the metadata of the page
+ * - `'fallback'`: a fallback card, as no metadata could be obtained
+ * - `'plain link'`: a plain link, as no card could be built at all
+ */
+export type CardRendering = 'card' | 'fallback' | 'plain link'
+
+/**
+ * A card rendered during the build, as listed in the build report.
+ */
+export interface CardReportEntry {
+  /**
+   * The URL of the card as written in the markdown file.
+   */
+  url: string
+
+  /**
+   * The path of the markdown file containing the card, relative to the source directory.
+   */
+  file?: string
+
+  /**
+   * The 1-based line number of the card in the file.
+   */
+  line?: number
+
+  /**
+   * The URL the page was finally served from, after following redirects.
+   * Internal cards have the link to the page.
+   */
+  finalUrl?: string
+
+  /**
+   * The HTTP status of the last request for the page during the build.
+   * Missing when nothing was requested.
+   */
+  status?: number
+
+  /**
+   * Every URL that answered with a redirect, in the order they were visited.
+   * For cache hits, those recorded when the entry was fetched.
+   */
+  redirects: string[]
+
+  /**
+   * Where the metadata came from.
+   */
+  cache: CardCacheStatus
+
+  /**
+   * How long the request for the page took in milliseconds, retries included.
+   */
+  fetchTime?: number
+
+  /**
+   * Whether the metadata has a title, a description and an image.
+   */
+  complete: boolean
+
+  /**
+   * The fields of `title`, `description` and `image` that the metadata lacks.
+   */
+  missing: string[]
+
+  /**
+   * What was rendered in place of the link.
+   */
+  rendered: CardRendering
+
+  /**
+   * Why the card could not be built from metadata of the page, as listed at the
+   * end of the build. Such cards are fallback cards or plain links.
+   */
+  failure?: string
+}
+
+/**
+ * The build report written by the Vite plugin (`linkToCardVitePlugin`).
+ */
+export interface CardReport {
+  /**
+   * When the report was written, as an ISO 8601 string.
+   */
+  generatedAt: string
+
+  /**
+   * The number of cards in each state.
+   */
+  summary: {
+    /** Every card */
+    total: number
+    /** Cards with a `failure` */
+    failed: number
+    /** Cards whose page answered with a `4xx` or `5xx` status */
+    broken: number
+    /** Cards whose page was redirected */
+    redirected: number
+    /** Cards whose metadata is not `complete` */
+    incomplete: number
+    /** Cards built from the cache without a request */
+    cached: number
+  }
+
+  /**
+   * Every card, ordered by file and line.
+   */
+  cards: CardReportEntry[]
+}
+
+/**
+ * The VitePress site that internal card links point to.
+ *
+ * Cards for links without a scheme, such as `@:/guide/intro` or
+ * `@:./setup.md`, are built from the frontmatter of the linked markdown file
+ * without any request. They open in the same tab unless `target` is set.
+ *
+ * @example
+ * ```typescript
+ * markdownIt.use(linkToCardPlugin, {
+ *   site: { base: '/docs/', title: 'My docs' }
+ * })
+ * ```
+ */
+export interface SiteOptions {
+  /**
+   * The directory of the markdown sources.
+   * @defaultValue Taken from the markdown-it env VitePress passes while rendering
+   */
+  srcDir?: string
+
+  /**
+   * The `base` of the VitePress config, prepended to the card href.
+   * @defaultValue `'/'`
+   */
+  base?: string
+
+  /**
+   * The `cleanUrls` of the VitePress config. Without it, hrefs end with `.html`.
+   * @defaultValue Taken from the markdown-it env VitePress passes while rendering
+   */
+  cleanUrls?: boolean
+
+  /**
+   * The site name shown on internal cards.
+   * @defaultValue The URL of the linked page
+   */
+  title?: string
+
+  /**
+   * The `lang` of the VitePress config, used for pages of the root locale.
+   * When a page has a language, remote cards are requested with a matching
+   * `Accept-Language` header and cached per language.
+   */
+  lang?: string
+
+  /**
+   * The `locales` of the VitePress config. A page belongs to the locale whose
+   * key is its first directory, such as `ja` for `ja/guide.md`, or else to `root`.
+   *
+   * @example
+   * ```typescript
+   * { root: { lang: 'en-US' }, ja: { lang: 'ja-JP' }, zh: { lang: 'zh-CN' } }
+   * ```
+   */
+  locales?: Record<string, { lang?: string }>
+}
+
+/**
+ * The layout of a card.
+ *
+ * - `'default'`: texts on the left and the image on the right, 130px high
+ * - `'compact'`: a single line with the favicon and the title
+ * - `'large'`: the image on top at full width, with the texts below it
+ * - `'text-only'`: the texts of the default layout without the image
+ */
+export type CardLayout = 'default' | 'compact' | 'large' | 'text-only'
+
+/**
+ * How a link with oEmbed data is displayed.
+ *
+ * - `'card'`: the normal link card
+ * - `'thumbnail'`: the link card with the oEmbed thumbnail and a play badge
+ * - `'embed'`: the embed HTML of the provider, after sanitizing it.
+ *   Only `<iframe>` elements with an `https:` source are kept; links without
+ *   one fall back to the normal card.
+ */
+export type EmbedMode = 'card' | 'thumbnail' | 'embed'
+
+/**
+ * Options for fetching oEmbed data.
+ *
+ * @see {@link https://oembed.com/ | oEmbed}
+ */
+export interface OEmbedOptions {
+  /**
+   * Whether to fetch oEmbed data at all.
+   * @defaultValue `true`
+   */
+  enabled?: boolean
+
+  /**
+   * Whether to follow `<link rel="alternate" type="application/json+oembed">`
+   * on pages that no known endpoint covers.
+   * @defaultValue `true`
+   */
+  discover?: boolean
+
+  /**
+   * Additional endpoints, tried before the built-in ones for YouTube, Vimeo,
+   * SpeakerDeck and CodePen.
+   */
+  endpoints?: OEmbedEndpoint[]
+}
+
+/**
+ * An oEmbed endpoint and the URLs it serves.
+ */
+export interface OEmbedEndpoint {
+  /**
+   * Which URLs the endpoint serves, in the same form as {@link ProviderAdapter.match}.
+   */
+  match: string[] | RegExp | ((url: URL) => boolean)
+
+  /**
+   * The URL of the endpoint. `url` and `format=json` are added as query parameters.
+   */
+  endpoint: string
+}
+
+/**
+ * An oEmbed response.
+ *
+ * @see {@link https://oembed.com/#section2.3 | oEmbed response parameters}
+ */
+export interface OEmbedData {
+  type: 'photo' | 'video' | 'link' | 'rich'
+  version?: string
+  title?: string
+  author_name?: string
+  author_url?: string
+  provider_name?: string
+  provider_url?: string
+  thumbnail_url?: string
+  thumbnail_width?: number
+  thumbnail_height?: number
+  url?: string
+  html?: string
+  width?: number
+  height?: number
+}
+
+/**
+ * Options for the metadata cache.
+ *
+ * @example
+ * ```typescript
+ * markdownIt.use(linkToCardPlugin, {
+ *   cache: {
+ *     store: 'directory',
+ *     path: 'docs/.vitepress/linkcard',
+ *     maxAge: 7 * 24 * 60 * 60 * 1000 // one week
+ *   }
+ * })
+ * ```
+ */
+export interface CacheOptions {
+  /**
+   * Where cached entries are kept.
+   *
+   * - `'file'`: a single JSON file
+   * - `'directory'`: one JSON file per URL, which avoids merge conflicts
+   * - `'memory'`: nowhere; every build starts empty
+   * - or any object implementing {@link CacheStore}
+   *
+   * @defaultValue `'file'`
+   */
+  store?: 'file' | 'directory' | 'memory' | CacheStore
+
+  /**
+   * Path of the cache file for `'file'`, or of the cache directory for `'directory'`.
+   * @defaultValue `'docs/.linkcard_cache.json'` / `'docs/.linkcard_cache'`,
+   * or the same name in the current directory if only that one exists
+   */
+  path?: string
+
+  /**
+   * Time in milliseconds after which a cached entry is considered stale.
+   * A stale entry is revalidated with a conditional request, and kept as it is
+   * if the request fails.
+   * @defaultValue `undefined` - Entries never expire
+   */
+  maxAge?: number
+}
+
+/**
+ * Storage for cached entries, keyed by URL.
+ *
+ * Methods are synchronous because markdown-it renders synchronously.
+ * Writes may be buffered; {@link CacheStore.flush} is called once at the end of the build.
+ *
+ * @example
+ * ```typescript
+ * const entries = new Map<string, CacheEntry>()
+ * const store: CacheStore = {
+ *   get: (url) => entries.get(url),
+ *   set: (url, entry) => void entries.set(url, entry),
+ *   delete: (url) => void entries.delete(url),
+ *   keys: () => [...entries.keys()],
+ *   flush: () => fs.writeFileSync('cache.json', JSON.stringify([...entries]))
+ * }
+ * ```
+ */
+export interface CacheStore {
+  /**
+   * Returns the entry for a URL, if any.
+   */
+  get(url: string): CacheEntry | undefined
+
+  /**
+   * Adds or replaces the entry for a URL.
+   */
+  set(url: string, entry: CacheEntry): void
+
+  /**
+   * Removes the entry for a URL.
+   */
+  delete(url: string): void
+
+  /**
+   * Returns the URLs of all entries.
+   */
+  keys(): string[]
+
+  /**
+   * Persists buffered writes.
+   */
+  flush(): void
+}
+
+/**
+ * A cached result of fetching a URL.
+ */
+export interface CacheEntry {
+  /**
+   * The metadata parsed from the page.
+   */
+  metadata: UrlMetadata
+
+  /**
+   * When the page was last fetched or revalidated, as an ISO 8601 string.
+   * Missing for entries written by older versions, which are always considered stale.
+   */
+  fetchedAt?: string
+
+  /**
+   * The `ETag` header of the response, sent back as `If-None-Match` on revalidation.
+   */
+  etag?: string
+
+  /**
+   * The `Last-Modified` header of the response, sent back as `If-Modified-Since` on revalidation.
+   */
+  lastModified?: string
+
+  /**
+   * The URL the page was finally served from, after following any redirects.
+   */
+  finalUrl?: string
+
+  /**
+   * Every URL that answered with a redirect, if the page was redirected.
+   */
+  redirects?: string[]
+}
+
+/**
+ * Options for fetching every card link before markdown rendering starts.
+ */
+export interface PrefetchOptions {
+  /**
+   * Maximum number of pages fetched at the same time.
+   * @defaultValue `8`
+   */
+  concurrency?: number
+}
+
+/**
+ * Options for the HTTP requests made to fetch page metadata.
+ *
+ * @example
+ * ```typescript
+ * markdownIt.use(linkToCardPlugin, {
+ *   fetch: { timeout: 5000, retries: 1, headers: { 'accept-language': 'ja' } }
+ * })
+ * ```
+ */
+export interface FetchOptions {
+  /**
+   * Time in milliseconds to wait for a response before giving up on an attempt.
+   * @defaultValue `10000`
+   */
+  timeout?: number
+
+  /**
+   * Number of additional attempts after a network error, a timeout,
+   * or a `408`, `429` or `5xx` response.
+   * @defaultValue `2`
+   */
+  retries?: number
+
+  /**
+   * Delay in milliseconds before the first retry. It doubles with every further retry.
+   * @defaultValue `500`
+   */
+  retryDelay?: number
+
+  /**
+   * Maximum size of a response body in bytes. Larger responses are aborted.
+   * @defaultValue `5242880` (5 MiB)
+   */
+  maxResponseSize?: number
+
+  /**
+   * Maximum number of redirects to follow.
+   * @defaultValue `5`
+   */
+  maxRedirects?: number
+
+  /**
+   * The `User-Agent` header sent with every request.
+   */
+  userAgent?: string
+
+  /**
+   * Additional request headers. They override the default ones.
+   */
+  headers?: Record<string, string>
 }
 
 /**
@@ -70,17 +846,171 @@ export interface UrlMetadata {
   description?: string
 
   /**
-   * The logo or icon URL for the page, extracted from `<meta property="og:image">` or
-   * `<link rel="icon">` tags.
+   * The image shown on the card: {@link UrlMetadata.image} if the page has one,
+   * otherwise {@link UrlMetadata.favicon} or a generic logo.
+   * Entries cached by older versions only have this field.
    */
   logo?: string
 
+  /**
+   * The preview image URL, extracted from `<meta property="og:image">` or
+   * `<meta name="twitter:image">` tags.
+   */
+  image?: string
+
+  /**
+   * The alternative text of the preview image (`og:image:alt`).
+   */
+  imageAlt?: string
+
+  /**
+   * The width of the preview image in pixels (`og:image:width`).
+   */
+  imageWidth?: number
+
+  /**
+   * The height of the preview image in pixels (`og:image:height`).
+   */
+  imageHeight?: number
+
+  /**
+   * The favicon URL, extracted from `<link rel="icon">` tags.
+   */
+  favicon?: string
+
+  /**
+   * The name of the site the page belongs to (`og:site_name`).
+   */
+  siteName?: string
+
+  /**
+   * The kind of content (`og:type`), e.g. `'website'` or `'article'`.
+   */
+  type?: string
+
+  /**
+   * The author of the page (`article:author` or `<meta name="author">`).
+   */
+  author?: string
+
+  /**
+   * When the page was published (`article:published_time`), as found on the page.
+   */
+  publishedTime?: string
+
+  /**
+   * The theme color of the site (`<meta name="theme-color">`).
+   */
+  themeColor?: string
+
+  /**
+   * The canonical URL of the page (`<link rel="canonical">` or `og:url`).
+   */
+  canonicalUrl?: string
+
+  /**
+   * The character encoding the page was served in, e.g. `'utf-8'` or `'shift_jis'`.
+   */
+  encoding?: string
+
+  /**
+   * The oEmbed endpoint the page advertises with
+   * `<link rel="alternate" type="application/json+oembed">`.
+   */
+  oembedUrl?: string
+
+  /**
+   * The oEmbed data of the page, if a known or advertised endpoint provides it.
+   */
+  oembed?: OEmbedData
+
+  /**
+   * The schema.org data of the main item of the page, from JSON-LD or microdata.
+   */
+  structuredData?: StructuredData
+
   /**
    * Additional metadata properties that may be extracted from the page.
    */
   [key: string]: unknown
 }
 
+/**
+ * The schema.org data of the main item of a page, normalized from
+ * `<script type="application/ld+json">` or microdata (`itemscope`/`itemprop`).
+ *
+ * Articles, products, software and events are recognized. The default renderer
+ * shows a detail line made of these values, e.g. `★4.5 · $29`.
+ *
+ * @see {@link https://schema.org/ | schema.org}
+ */
+export interface StructuredData {
+  /**
+   * The schema.org type, e.g. `'Article'`, `'Product'`, `'SoftwareApplication'` or `'Event'`.
+   */
+  type: string
+
+  /**
+   * The `headline` or `name` of the item.
+   */
+  headline?: string
+
+  /**
+   * The `description` of the item.
+   */
+  description?: string
+
+  /**
+   * The first `image` of the item.
+   */
+  image?: string
+
+  /**
+   * The names of the `author`s, separated by commas.
+   */
+  author?: string
+
+  /**
+   * The `datePublished` of the item, as found on the page.
+   */
+  datePublished?: string
+
+  /**
+   * The `price`, or `lowPrice` of an aggregate offer.
+   */
+  price?: number
+
+  /**
+   * The ISO 4217 `priceCurrency` of the price, e.g. `'USD'`.
+   */
+  currency?: string
+
+  /**
+   * The `ratingValue` of the `aggregateRating`.
+   */
+  rating?: number
+
+  /**
+   * The `ratingCount` or `reviewCount` of the `aggregateRating`.
+   */
+  ratingCount?: number
+
+  /**
+   * The `startDate` of an event, as found on the page.
+   */
+  startDate?: string
+
+  /**
+   * The name or locality of the `location` of an event.
+   */
+  location?: string
+
+  /**
+   * The `softwareVersion` of software.
+   */
+  version?: string
+}
+
 /**
  * Valid values for the HTML anchor element's `target` attribute.
  *
@@ -112,8 +1042,19 @@ export interface CardDomRenderOptions {
 
   /**
    * CSS class name prefix for the card DOM elements.
+   * When set, class names are applied instead of inline styles.
    */
   classPrefix?: string
+
+  /**
+   * The layout of the card.
+   */
+  layout?: CardLayout
+
+  /**
+   * How to display the link if it has oEmbed data.
+   */
+  embed?: EmbedMode
 }
 
 /**
@@ -122,17 +1063,23 @@ export interface CardDomRenderOptions {
  * This type defines a function that takes URL metadata and rendering options,
  * and returns an HTML string representing the link card.
  *
+ * Metadata comes from remote pages and is not escaped. Use `escapeHtml`,
+ * `escapeAttr` and `sanitizeUrl`, as the default renderer does.
+ *
  * @param data - The metadata extracted from the URL
  * @param options - Rendering and styling options for the card
  * @returns An HTML string representing the rendered link card
  *
  * @example
  * ```typescript
+ * import { escapeAttr, escapeHtml, sanitizeUrl } from 'vitepress-linkcard'
+ *
  * const customRender: CardDomRender = (data, options) => {
- *   return `<div class="${options.classPrefix}">
- *     <h3>${data.title}</h3>
- *     <p>${data.description}</p>
- *   </div>`
+ *   const href = sanitizeUrl(options.href) ?? '#'
+ *   return `<a class="${escapeAttr(options.classPrefix ?? '')}" href="${escapeAttr(href)}">
+ *     <h3>${escapeHtml(data.title ?? '')}</h3>
+ *     <p>${escapeHtml(data.description ?? '')}</p>
+ *   </a>`
  * }
  * ```
  */
@@ -140,3 +1087,97 @@ export type CardDomRender = (
   data: UrlMetadata,
   options: CardDomRenderOptions
 ) => string
+
+/**
+ * The outcome of a completed HTTP request.
+ */
+export interface FetchResult {
+  /**
+   * The URL the response was finally served from, after following redirects.
+   */
+  url: string
+
+  /**
+   * The HTTP status code of the final response.
+   */
+  status: number
+
+  /**
+   * The response headers, with lower-cased names.
+   */
+  headers: Record<string, string>
+
+  /**
+   * The response body, decoded with the encoding it was served in.
+   */
+  body: string
+
+  /**
+   * The raw response body, e.g. for images.
+   */
+  bytes: Uint8Array
+
+  /**
+   * The WHATWG name of the encoding the body was decoded with, e.g. `'shift_jis'`.
+   */
+  encoding: string
+
+  /**
+   * Every URL that answered with a redirect, in the order they were visited.
+   */
+  redirects: string[]
+}
+
+/**
+ * An adapter that customizes how cards for matching URLs get their metadata.
+ *
+ * Adapters are tried in order and the first one whose {@link ProviderAdapter.match}
+ * accepts the URL is used. Every hook is optional.
+ *
+ * @example
+ * ```typescript
+ * const docsProvider: ProviderAdapter = {
+ *   name: 'internal-docs',
+ *   match: ['docs.example.com'],
+ *   transform: (data) => ({ ...data, title: data.title?.replace(/ \| Docs$/, '') })
+ * }
+ *
+ * markdownIt.use(linkToCardPlugin, { providers: [docsProvider] })
+ * ```
+ */
+export interface ProviderAdapter {
+  /**
+   * A unique name, used in messages.
+   */
+  name: string
+
+  /**
+   * Which URLs the adapter handles: a list of hosts (`'*.example.com'` also
+   * matches subdomains), a pattern tested against the whole URL, or a function.
+   */
+  match: string[] | RegExp | ((url: URL) => boolean)
+
+  /**
+   * Supplies the metadata directly, without any request.
+   * Return `undefined` to fall through to fetching.
+   */
+  metadata?: (url: URL) => UrlMetadata | undefined
+
+  /**
+   * Rewrites the URL that is fetched, e.g. to an API endpoint.
+   * The card still links to the original URL.
+   */
+  resolveUrl?: (url: URL) => string
+
+  /**
+   * Builds the metadata from the response in place of the HTML parser.
+   * Return `null` if the response is not usable.
+   */
+  parse?: (result: FetchResult, url: URL) => UrlMetadata | null
+
+  /**
+   * Post-processes the metadata, cached or fresh, before a card is rendered.
+   * It should give the same result when applied twice.
+   */
+  transform?: (data: UrlMetadata, url: URL) => UrlMetadata
+}
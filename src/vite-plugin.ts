@@ -0,0 +1,161 @@
+import type { Plugin } from 'vite'
+import type { LinkToCardPluginOptions } from './types'
+import fs from 'node:fs'
+import path from 'node:path'
+import {
+  IMAGE_MIME_TYPES,
+  collectCardLinks,
+  findMarkdownFiles,
+  flushCacheStores,
+  formatCardFailure,
+  getCardReport,
+  getUsedImages,
+  prefetchUrlMetadata,
+  resolvePageLang,
+  resolveImageDir,
+  resolveImagePublicPath,
+  takeCardFailures,
+  writeCardReport
+} from './assemble'
+
+const ImageFileReg = /^[\da-f]+\.(\w+)$/
+
+/**
+ * Vite plugin that fetches the metadata of every `@:` card link concurrently
+ * before VitePress starts rendering markdown.
+ *
+ * markdown-it rules are synchronous, so without this plugin every uncached
+ * link is fetched one at a time while pages are rendered. With it, the
+ * markdown-it plugin only reads from the filled cache.
+ *
+ * At the end of a build, it lists the cards that could not be built, and
+ * fails the build in `'strict'` mode. With `report`, it writes a report of
+ * every card into the report directory. With `images.selfHost`, it also copies
+ * the downloaded card images into the output and serves them in development.
+ * With `output: 'component'`, it lets Vite load the card component of the package.
+ *
+ * @param options - The same options as passed to {@link linkToCardPlugin}
+ * @returns A Vite plugin to add to `vite.plugins` in the VitePress config
+ *
+ * @example
+ * ```typescript
+ * export default defineConfig({
+ *   markdown: {
+ *     config: (md) => md.use(linkToCardPlugin, options)
+ *   },
+ *   vite: {
+ *     plugins: [linkToCardVitePlugin(options)]
+ *   }
+ * })
+ * ```
+ */
+export function linkToCardVitePlugin(
+  options: LinkToCardPluginOptions = {}
+): Plugin {
+  let srcDir = process.cwd()
+  let isBuild = false
+  let isSsr = false
+
+  return {
+    name: 'vitepress-linkcard',
+
+    config() {
+      if (options.output !== 'component') return
+      // The client entry imports `LinkCard.vue`, which only the Vue plugin can load.
+      return {
+        optimizeDeps: { exclude: ['vitepress-linkcard/client'] },
+        ssr: { noExternal: ['vitepress-linkcard'] }
+      }
+    },
+
+    configResolved(config) {
+      const { vitepress } = config as { vitepress?: { srcDir?: string } }
+      srcDir = vitepress?.srcDir ?? config.root
+      isBuild = config.command === 'build'
+      isSsr = !!config.build.ssr
+    },
+
+    configureServer(server) {
+      if (!options.images?.selfHost) return
+      const dir = resolveImageDir(options.images)
+      const prefix = `/${resolveImagePublicPath(options.images)}`
+
+      server.middlewares.use((req, res, next) => {
+        const pathname = req.url?.split('?')[0] ?? ''
+        const index = pathname.indexOf(prefix)
+        const file = index === -1 ? '' : pathname.slice(index + prefix.length)
+        const type = file.match(ImageFileReg)?.[1] as
+          | keyof typeof IMAGE_MIME_TYPES
+          | undefined
+
+        if (!type || !fs.existsSync(path.join(dir, file))) return next()
+        res.setHeader('content-type', IMAGE_MIME_TYPES[type])
+        fs.createReadStream(path.join(dir, file)).pipe(res)
+      })
+    },
+
+    async buildStart() {
+      // Pages of each locale are prefetched in their own language.
+      const urlsByLang = new Map<string | undefined, string[]>()
+      findMarkdownFiles(srcDir).forEach((file) => {
+        const lang = resolvePageLang(options.site, path.relative(srcDir, file))
+        const urls = collectCardLinks(fs.readFileSync(file, 'utf-8'), {
+          bareUrls: options.bareUrls
+        }).map(({ url }) => url)
+        urlsByLang.set(lang, [...(urlsByLang.get(lang) ?? []), ...urls])
+      })
+
+      for (const [lang, urls] of urlsByLang) {
+        await prefetchUrlMetadata(urls, {
+          ...options.prefetch,
+          fetch: options.fetch,
+          cache: options.cache,
+          providers: options.providers,
+          oembed: options.oembed,
+          mode: options.mode,
+          normalize: options.normalize,
+          images: options.images,
+          lang
+        })
+      }
+    },
+
+    buildEnd() {
+      const report = isBuild && options.report ? getCardReport() : undefined
+      if (report?.cards.length) {
+        writeCardReport(
+          report,
+          typeof options.report === 'object' ? options.report : {}
+        )
+      }
+
+      const failures = isBuild ? takeCardFailures() : []
+      if (!failures.length) return
+
+      const message = [
+        `${failures.length} link card(s) could not be built:`,
+        ...failures.map((failure) => `  ${formatCardFailure(failure)}`)
+      ].join('\n')
+
+      if (options.mode === 'strict') this.error(message)
+      this.warn(message)
+    },
+
+    generateBundle() {
+      if (!options.images?.selfHost || isSsr) return
+      const publicPath = resolveImagePublicPath(options.images)
+
+      getUsedImages().forEach((file, name) => {
+        this.emitFile({
+          type: 'asset',
+          fileName: `${publicPath}${name}`,
+          source: fs.readFileSync(file)
+        })
+      })
+    },
+
+    closeBundle() {
+      flushCacheStores()
+    }
+  }
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest'
+import { decodeEntities } from '../src/assemble/entities'
+
+describe('decodeEntities', () => {
+  it('decodes named, decimal and hexadecimal references', () => {
+    expect(decodeEntities('&lt;a&gt; &amp; &#39;b&#x27; &hellip;')).toBe(
+      "<a> & 'b' …"
+    )
+  })
+
+  it('maps numeric references in the C1 range to windows-1252', () => {
+    expect(decodeEntities('&#147;quoted&#148; &#128;5')).toBe('“quoted” €5')
+  })
+
+  it('replaces invalid code points', () => {
+    expect(decodeEntities('&#0; &#xD800; &#x110000;')).toBe('� � �')
+  })
+
+  it('leaves unknown named references as they are', () => {
+    expect(decodeEntities('&unknown; &foo')).toBe('&unknown; &foo')
+  })
+
+  it('decodes references without a semicolon in text', () => {
+    expect(decodeEntities('&copy 2025 &amp=')).toBe('© 2025 &=')
+  })
+
+  it('keeps references without a semicolon before `=` in attribute values', () => {
+    expect(decodeEntities('?a=1&copy=2&amp;b=3', true)).toBe('?a=1&copy=2&b=3')
+    expect(decodeEntities('&copy 2025', true)).toBe('© 2025')
+  })
+})
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import { fetchRemote } from '../src/assemble/fetch'
+import { useStubServer } from './stub-server'
+
+const stub = useStubServer((req, res) => {
+  if (req.url === '/loop') {
+    res.writeHead(302, { location: '/loop' })
+    return res.end()
+  }
+  if (req.url === '/large') {
+    res.writeHead(200, { 'content-type': 'text/html' })
+    return res.end('x'.repeat(2048))
+  }
+  res.writeHead(503)
+  res.end()
+})
+
+const options = { retries: 2, retryDelay: 1, maxRedirects: 3 }
+
+describe('fetchRemote', () => {
+  it('retries error statuses that may pass', async () => {
+    const result = await fetchRemote(`${stub.origin}/busy`, options)
+
+    expect(result.status).toBe(503)
+    expect(stub.requested).toHaveLength(3)
+  })
+
+  it('does not retry a redirect loop', async () => {
+    await expect(fetchRemote(`${stub.origin}/loop`, options)).rejects.toThrow(
+      'too many redirects'
+    )
+    expect(stub.requested).toHaveLength(4)
+  })
+
+  it('does not retry a response that is too large', async () => {
+    await expect(
+      fetchRemote(`${stub.origin}/large`, { ...options, maxResponseSize: 1024 })
+    ).rejects.toThrow('response exceeds 1024 bytes')
+    expect(stub.requested).toHaveLength(1)
+  })
+
+  it('does not retry unsupported protocols and invalid URLs', async () => {
+    await expect(fetchRemote('ftp://example.com/', options)).rejects.toThrow(
+      'unsupported protocol'
+    )
+    await expect(fetchRemote('not a url', options)).rejects.toThrow(
+      'invalid URL'
+    )
+  })
+})
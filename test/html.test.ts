@@ -0,0 +1,39 @@
+import type { UrlMetadata } from '../src/types'
+import { compile } from '@vue/compiler-dom'
+import { describe, expect, it } from 'vitest'
+import { generateCardDomFragment } from '../src/assemble/html'
+
+const data: UrlMetadata = {
+  title: 'Learn {{ things }} here',
+  description: 'A & {{ 1+1 }}',
+  logo: 'https://example.com/logo.png'
+}
+
+const options = {
+  href: 'https://example.com/',
+  linkTitle: '{{ title }}',
+  target: '_blank'
+}
+
+// VitePress compiles the rendered markdown as a Vue template.
+function interpolates(template: string) {
+  return compile(template).code.includes('toDisplayString')
+}
+
+describe('generateCardDomFragment', () => {
+  it('is compiled by Vue without interpolating mustaches', () => {
+    expect(interpolates('<span>{{ things }}</span>')).toBe(true)
+
+    const html = generateCardDomFragment(data, options)
+    expect(html).toContain('Learn {{ things }} here')
+    expect(interpolates(html)).toBe(false)
+  })
+
+  it('is compiled by Vue without interpolating mustaches with classes', () => {
+    const html = generateCardDomFragment(data, {
+      ...options,
+      classPrefix: 'vitepress-linkcard'
+    })
+    expect(interpolates(html)).toBe(false)
+  })
+})
@@ -0,0 +1,70 @@
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { afterAll, describe, expect, it, vi } from 'vitest'
+import { selfHostImages } from '../src/assemble/image-cache'
+import { prefetchUrlMetadata } from '../src/assemble/metadata'
+import { DEFAULT_LOGO } from '../src/assemble/parser'
+import { useStubServer } from './stub-server'
+
+// The header of a GIF of 16×9 pixels, padded to the length the size is read from.
+const GIF = Buffer.concat([
+  Buffer.from('GIF89a'),
+  Buffer.from([16, 0, 9, 0]),
+  Buffer.alloc(6)
+])
+
+const stub = useStubServer((req, res) => {
+  if (req.url?.endsWith('.gif')) {
+    res.writeHead(200, { 'content-type': 'image/gif' })
+    return res.end(GIF)
+  }
+  res.writeHead(200, { 'content-type': 'text/html' })
+  res.end(
+    `<title>Page</title><meta property="og:image" content="${req.url}.gif">`
+  )
+})
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'linkcard-images-'))
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true })
+})
+
+const options = {
+  cache: { store: 'memory' as const },
+  fetch: { retries: 0 },
+  images: { selfHost: true, dir, placeholder: '/placeholder.png' }
+}
+
+describe('selfHostImages', () => {
+  it('finds the images downloaded during the prefetch', async () => {
+    await prefetchUrlMetadata([`${stub.origin}/a`, `${stub.origin}/b`], options)
+
+    expect(stub.requested.sort()).toEqual(['/a', '/a.gif', '/b', '/b.gif'])
+    stub.requested.length = 0
+
+    const metadata = selfHostImages(
+      { title: 'Page', image: `${stub.origin}/a.gif` },
+      options
+    )
+    expect(metadata).toMatchObject({
+      image: expect.stringMatching(/^\/assets\/linkcard\/[\da-f]+\.gif$/),
+      imageWidth: 16,
+      imageHeight: 9
+    })
+    expect(stub.requested).toEqual([])
+  })
+
+  it('uses the placeholder in place of the generic logo', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const metadata = selfHostImages(
+      { title: 'Page', logo: DEFAULT_LOGO },
+      options
+    )
+
+    expect(metadata.image).toBe('/placeholder.png')
+    expect(error).not.toHaveBeenCalled()
+    error.mockRestore()
+  })
+})
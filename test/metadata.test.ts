@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest'
+import {
+  cacheKey,
+  canonicalCardUrl,
+  prefetchUrlMetadata,
+  requestUrlMetadata,
+  resolveCacheStore
+} from '../src/assemble/metadata'
+import { useStubServer } from './stub-server'
+
+const stub = useStubServer((req, res) => {
+  if (req.url === '/moved') {
+    res.writeHead(301, { location: '/guide/' })
+    return res.end()
+  }
+  res.writeHead(200, { 'content-type': 'text/html' })
+  res.end(`<title>Page ${req.url}</title>`)
+})
+
+// Every test requests its own paths, so they share the memory store.
+const options = {
+  cache: { store: 'memory' as const },
+  fetch: { retries: 0 }
+}
+
+describe('URL normalization', () => {
+  it('requests the URL as written and caches it under the normalized URL', async () => {
+    const metadata = await requestUrlMetadata(
+      `${stub.origin}/docs/?utm_source=feed`,
+      options
+    )
+
+    expect(metadata.title).toBe('Page /docs/?utm_source=feed')
+    expect(
+      await requestUrlMetadata(`${stub.origin}/docs#intro`, options)
+    ).toEqual(metadata)
+    expect(stub.requested).toEqual(['/docs/?utm_source=feed'])
+  })
+
+  it('prefetches the first of the URLs that normalize to the same URL', async () => {
+    const count = await prefetchUrlMetadata(
+      [`${stub.origin}/a/`, `${stub.origin}/a`, `${stub.origin}/b?ref=x`],
+      { ...options, normalize: { stripParams: ['ref'] } }
+    )
+
+    expect(count).toBe(2)
+    expect(stub.requested.sort()).toEqual(['/a/', '/b?ref=x'])
+  })
+})
+
+describe('canonicalCardUrl', () => {
+  it('links to the URL as written when the page was not redirected', async () => {
+    const url = `${stub.origin}/guide/?utm_source=feed#intro`
+    const metadata = await requestUrlMetadata(url, options)
+
+    expect(canonicalCardUrl(url, metadata, options)).toBe(url)
+    expect(canonicalCardUrl(`${stub.origin}/guide`, metadata, options)).toBe(
+      `${stub.origin}/guide`
+    )
+  })
+
+  it('links to where a redirect leads, with the fragment as written', async () => {
+    const url = `${stub.origin}/moved#top`
+    const metadata = await requestUrlMetadata(url, options)
+
+    expect(canonicalCardUrl(url, metadata, options)).toBe(
+      `${stub.origin}/guide/#top`
+    )
+  })
+
+  it('links to the same URL from the cache as after a request', () => {
+    const metadata = { title: 'Cached' }
+    const store = resolveCacheStore(options.cache)
+    store.set(cacheKey(`${stub.origin}/cached`), {
+      metadata,
+      finalUrl: `${stub.origin}/cached/?utm_source=feed`
+    })
+    store.set(cacheKey(`${stub.origin}/old`), {
+      metadata,
+      finalUrl: `${stub.origin}/new`,
+      redirects: [`${stub.origin}/old`]
+    })
+
+    expect(
+      canonicalCardUrl(`${stub.origin}/cached/#intro`, metadata, options)
+    ).toBe(`${stub.origin}/cached/#intro`)
+    expect(
+      canonicalCardUrl(`${stub.origin}/old#intro`, metadata, options)
+    ).toBe(`${stub.origin}/new#intro`)
+  })
+})
@@ -0,0 +1,87 @@
+import fs from 'node:fs'
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_LOGO, parserMetadata } from '../src/assemble/parser'
+
+const PAGE_URL = 'https://example.com/blog/post'
+
+function parseFixture(name: string) {
+  const html = fs.readFileSync(
+    new URL(`./fixtures/metadata/${name}.html`, import.meta.url),
+    'utf-8'
+  )
+  return parserMetadata(html, PAGE_URL)
+}
+
+describe('parserMetadata priority', () => {
+  it('prefers Open Graph over every other source', () => {
+    expect(parseFixture('open-graph')).toMatchObject({
+      title: 'Open Graph title',
+      description: 'Open Graph description',
+      image: 'https://example.com/og.png',
+      logo: 'https://example.com/og.png'
+    })
+  })
+
+  it('falls back to Twitter Cards', () => {
+    expect(parseFixture('twitter')).toMatchObject({
+      title: 'Twitter title',
+      description: 'Twitter description',
+      image: 'https://example.com/twitter.png'
+    })
+  })
+
+  it('falls back to standard meta tags before schema.org data', () => {
+    expect(parseFixture('standard')).toMatchObject({
+      title: 'Meta title',
+      description: 'Meta description',
+      image: 'https://example.com/itemprop.png'
+    })
+  })
+
+  it('falls back to schema.org data before the document title', () => {
+    expect(parseFixture('structured-data')).toMatchObject({
+      title: 'Structured headline',
+      description: 'Structured description',
+      image: 'https://example.com/structured.png'
+    })
+  })
+
+  it('falls back to the document title and the favicon', () => {
+    const metadata = parseFixture('fallback')
+
+    expect(metadata).toMatchObject({
+      title: 'Document title',
+      favicon: 'https://example.com/favicon.ico',
+      logo: 'https://example.com/favicon.ico'
+    })
+    expect(metadata?.description).toBeUndefined()
+    expect(metadata?.image).toBeUndefined()
+  })
+
+  it('uses the generic logo when the page has no image or favicon', () => {
+    expect(parseFixture('empty')).toEqual({ logo: DEFAULT_LOGO })
+  })
+
+  it('resolves relative URLs against <base href>', () => {
+    expect(parseFixture('base')).toMatchObject({
+      image: 'https://cdn.example.com/assets/images/card.png',
+      favicon: 'https://cdn.example.com/favicon.ico'
+    })
+  })
+})
+
+describe('parserMetadata entities', () => {
+  it('decodes character references in text and attribute values', () => {
+    expect(parseFixture('entities')).toMatchObject({
+      title: 'Tom & Jerry – ★ © 2025',
+      description: '"Quoted" <b> – café'
+    })
+  })
+
+  it('keeps references without a semicolon before `=` in URLs', () => {
+    expect(parseFixture('entities')).toMatchObject({
+      image: 'https://example.com/image.png?a=1&copy=2&b=3',
+      canonicalUrl: 'https://example.com/page?x=1&reg=2&y=3'
+    })
+  })
+})
@@ -0,0 +1,59 @@
+import type { LinkToCardPluginOptions } from '../src/types'
+import MarkdownIt from 'markdown-it'
+import { describe, expect, it } from 'vitest'
+import { getCardReport } from '../src/assemble/report'
+import { linkToCardPlugin } from '../src/link-to-card-plugin'
+
+function render(src: string, options: LinkToCardPluginOptions = {}) {
+  const md = new MarkdownIt()
+  md.use(linkToCardPlugin, {
+    mode: 'offline',
+    fallback: false,
+    cache: { store: 'memory' },
+    ...options
+  })
+  return md.render(src, { relativePath: 'page.md' })
+}
+
+describe('linkToCardPlugin', () => {
+  it('renders a plain link when no card is built', () => {
+    expect(render('[docs](@:https://example.com/docs)')).toContain(
+      '<a href="https://example.com/docs">docs</a>'
+    )
+  })
+
+  it('drops URLs with a disallowed scheme from plain links', () => {
+    const html = render('[x](@:javascript:alert(1))')
+    expect(html).toContain('<a>x</a>')
+    expect(html).not.toContain('javascript:')
+  })
+})
+
+describe('build report', () => {
+  it('records what was rendered in place of each link', () => {
+    render(
+      [
+        '[gone](@:https://example.com/gone)',
+        '',
+        '[kept](@:https://example.com/kept)',
+        '',
+        '[missing](@:/missing)'
+      ].join('\n'),
+      {
+        report: true,
+        fallback: (url) => (url.endsWith('/kept') ? { title: 'Kept' } : null)
+      }
+    )
+    const rendered = Object.fromEntries(
+      getCardReport()
+        .cards.filter((entry) => entry.file === 'page.md')
+        .map((entry) => [entry.url, entry.rendered])
+    )
+
+    expect(rendered).toEqual({
+      'https://example.com/gone': 'plain link',
+      'https://example.com/kept': 'fallback',
+      '/missing': 'plain link'
+    })
+  })
+})
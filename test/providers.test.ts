@@ -0,0 +1,230 @@
+import type { ProviderAdapter } from '../src/types'
+import { describe, expect, it } from 'vitest'
+import { LinkCardError } from '../src/assemble/errors'
+import { fetchUrlMetadata, requestUrlMetadata } from '../src/assemble/metadata'
+import {
+  githubProvider,
+  npmProvider,
+  twitterProvider,
+  wikipediaProvider,
+  youtubeProvider
+} from '../src/providers'
+import { useStubServer } from './stub-server'
+
+type Route = { status: number; type: string; body: string }
+
+const json = (body: unknown, status = 200): Route => ({
+  status,
+  type: 'application/json',
+  body: JSON.stringify(body)
+})
+
+const html = (body: string, status = 200): Route => ({
+  status,
+  type: 'text/html',
+  body
+})
+
+// Responses of the stub server by path, with the query string left out.
+const ROUTES: Record<string, Route> = {
+  '/registry/vitepress-linkcard/latest': json({
+    name: 'vitepress-linkcard',
+    description: 'A Vitepress plugin to generate a pretty linkcard with OGP.',
+    version: '2.2.1'
+  }),
+  '/registry/@scope%2Fpkg/latest': json({ name: '@scope/pkg' }),
+  '/registry/missing/latest': json({ error: 'Not found' }, 404),
+  '/youtube': json({
+    title: 'A video',
+    author_name: 'A channel',
+    thumbnail_url: 'https://i.ytimg.com/vi/abc/hqdefault.jpg',
+    thumbnail_width: 480,
+    thumbnail_height: 360,
+    html: '<iframe src="https://www.youtube.com/embed/abc"></iframe>'
+  }),
+  '/youtube-gone': json({}, 404),
+  '/en/page/summary/Tokyo': json({
+    title: 'Tokyo',
+    description: 'Capital of Japan',
+    extract: 'Tokyo is the capital of Japan.',
+    thumbnail: { source: 'https://upload.wikimedia.org/tokyo.jpg', width: 320 }
+  }),
+  '/en/page/summary/Missing': json({ title: 'Not found.' }, 404),
+  '/twitter': json({
+    author_name: 'Someone',
+    html: '<blockquote><p>Hello<br>world &amp; more</p>&mdash; Someone</blockquote>'
+  }),
+  '/twitter-gone': json({ error: 'Not found' }, 404),
+  '/github/repo': html(
+    '<title>GitHub - owner/repo: Short description</title>' +
+      '<meta name="description" content="Short description - owner/repo">'
+  ),
+  '/github/issue': html('<title>Fix it · Issue #12 · owner/repo</title>'),
+  '/github/gone': html('<title>Server error</title>', 500)
+}
+
+const stub = useStubServer((req, res) => {
+  const route = ROUTES[(req.url ?? '').split('?')[0]]
+  res.writeHead(route?.status ?? 404, {
+    'content-type': route?.type ?? 'text/plain'
+  })
+  res.end(route?.body ?? 'Not found')
+})
+
+function request(url: string, provider: ProviderAdapter) {
+  return requestUrlMetadata(url, {
+    providers: [provider],
+    cache: { store: 'memory' },
+    fetch: { retries: 0 }
+  })
+}
+
+async function expectHttpError(promise: Promise<unknown>, status: number) {
+  const err = await promise.catch((e: unknown) => e)
+  expect(err).toBeInstanceOf(LinkCardError)
+  expect(err).toMatchObject({ code: 'http', status })
+}
+
+describe('github provider', () => {
+  // Cards of the stub server go through the adapter in place of github.com.
+  const provider = () => ({ ...githubProvider(), match: ['127.0.0.1'] })
+
+  it('trims the title and description of repository pages', async () => {
+    expect(
+      await request(`${stub.origin}/github/repo`, provider())
+    ).toMatchObject({
+      title: 'owner/repo',
+      description: 'Short description'
+    })
+  })
+
+  it('moves the repository of issues into the site name', async () => {
+    expect(
+      await request(`${stub.origin}/github/issue`, provider())
+    ).toMatchObject({
+      title: 'Fix it',
+      siteName: 'owner/repo #12'
+    })
+  })
+
+  it('rejects on an error status', async () => {
+    await expectHttpError(
+      request(`${stub.origin}/github/gone`, provider()),
+      500
+    )
+  })
+})
+
+describe('npm provider', () => {
+  const provider = () => npmProvider({ registry: `${stub.origin}/registry/` })
+
+  it('builds the card from the registry', async () => {
+    const url = 'https://www.npmjs.com/package/vitepress-linkcard'
+    expect(await request(url, provider())).toMatchObject({
+      title: 'vitepress-linkcard',
+      description: 'A Vitepress plugin to generate a pretty linkcard with OGP.',
+      siteName: 'npm · v2.2.1',
+      type: 'package'
+    })
+  })
+
+  it('requests scoped packages with an encoded slash', async () => {
+    const url = 'https://www.npmjs.com/package/@scope/pkg'
+    expect(await request(url, provider())).toMatchObject({
+      title: '@scope/pkg',
+      siteName: 'npm · vlatest'
+    })
+    expect(stub.requested).toContain('/registry/@scope%2Fpkg/latest')
+  })
+
+  it('falls back when the registry answers with an error status', async () => {
+    const url = 'https://www.npmjs.com/package/missing'
+    await expectHttpError(request(url, provider()), 404)
+    expect(
+      await fetchUrlMetadata(url, {
+        providers: [provider()],
+        cache: { store: 'memory' },
+        fetch: { retries: 0 }
+      })
+    ).toBeNull()
+  })
+})
+
+describe('youtube provider', () => {
+  it('builds the card from oEmbed', async () => {
+    const url = 'https://www.youtube.com/watch?v=abc'
+    const metadata = await request(
+      url,
+      youtubeProvider({ endpoint: `${stub.origin}/youtube` })
+    )
+
+    expect(metadata).toMatchObject({
+      title: 'A video',
+      author: 'A channel',
+      image: 'https://i.ytimg.com/vi/abc/hqdefault.jpg',
+      imageWidth: 480,
+      imageHeight: 360,
+      siteName: 'YouTube',
+      type: 'video'
+    })
+    expect(metadata.oembed?.html).toContain('youtube.com/embed/abc')
+    expect(stub.requested).toContain(
+      `/youtube?format=json&url=${encodeURIComponent(url)}`
+    )
+  })
+
+  it('falls back when oEmbed answers with an error status', async () => {
+    const provider = youtubeProvider({
+      endpoint: `${stub.origin}/youtube-gone`
+    })
+    await expectHttpError(request('https://youtu.be/gone', provider), 404)
+  })
+})
+
+describe('wikipedia provider', () => {
+  const provider = () =>
+    wikipediaProvider({ endpoint: `${stub.origin}/{lang}` })
+
+  it('builds the card from the page summary', async () => {
+    expect(
+      await request('https://en.wikipedia.org/wiki/Tokyo', provider())
+    ).toMatchObject({
+      title: 'Tokyo',
+      description: 'Tokyo is the capital of Japan.',
+      image: 'https://upload.wikimedia.org/tokyo.jpg',
+      imageWidth: 320,
+      siteName: 'Wikipedia'
+    })
+  })
+
+  it('falls back when the API answers with an error status', async () => {
+    await expectHttpError(
+      request('https://en.wikipedia.org/wiki/Missing', provider()),
+      404
+    )
+  })
+})
+
+describe('twitter provider', () => {
+  it('builds the card from oEmbed', async () => {
+    const provider = twitterProvider({ endpoint: `${stub.origin}/twitter` })
+    expect(
+      await request('https://x.com/someone/status/123', provider)
+    ).toMatchObject({
+      title: 'Someone on X',
+      description: 'Hello\nworld & more',
+      author: 'Someone',
+      siteName: 'X'
+    })
+  })
+
+  it('falls back when oEmbed answers with an error status', async () => {
+    const provider = twitterProvider({
+      endpoint: `${stub.origin}/twitter-gone`
+    })
+    await expectHttpError(
+      request('https://twitter.com/someone/status/456', provider),
+      404
+    )
+  })
+})
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import { parseStructuredData } from '../src/assemble/structured-data'
+
+const BASE = 'https://example.com/'
+
+const PRODUCT =
+  '<div itemscope itemtype="https://schema.org/Product">' +
+  '<span itemprop="name">Widget</span>' +
+  '<div itemprop="offers" itemscope itemtype="https://schema.org/Offer">' +
+  '<meta itemprop="price" content="9.5">' +
+  '<meta itemprop="priceCurrency" content="USD">' +
+  '</div></div>'
+
+describe('parseStructuredData', () => {
+  it('reads nested microdata items and text values', () => {
+    const html =
+      '<div itemscope itemtype="https://schema.org/Event">' +
+      '<h1 itemprop="name">Conf <b>2025</b></h1>' +
+      '<div itemprop="location" itemscope itemtype="https://schema.org/Place">' +
+      '<span itemprop="name">Hall</span></div>' +
+      '<time itemprop="startDate" datetime="2025-05-01">May 1</time></div>'
+
+    expect(parseStructuredData(html, BASE)).toEqual({
+      type: 'Event',
+      headline: 'Conf 2025',
+      startDate: '2025-05-01',
+      location: 'Hall'
+    })
+  })
+
+  it('prefers the main item of JSON-LD over microdata', () => {
+    const html =
+      PRODUCT +
+      '<script type="application/ld+json">' +
+      '{"@type":"BlogPosting","headline":"Post","image":"/post.png"}' +
+      '</script>'
+
+    expect(parseStructuredData(html, BASE)).toEqual({
+      type: 'BlogPosting',
+      headline: 'Post',
+      image: 'https://example.com/post.png'
+    })
+  })
+
+  it('closes the items of microdata despite unclosed elements', () => {
+    const filler = '<li>item<p>text</span>'.repeat(5000)
+    const html = `<ul>${PRODUCT}${filler}</ul>`
+
+    expect(parseStructuredData(html, BASE)).toEqual({
+      type: 'Product',
+      headline: 'Widget',
+      price: 9.5,
+      currency: 'USD'
+    })
+  })
+
+  it('ignores microdata beyond the first tokens of huge pages', () => {
+    const filler = '<p>text</p>'.repeat(30000)
+    expect(parseStructuredData(filler + PRODUCT, BASE)).toBeUndefined()
+  })
+})
@@ -0,0 +1,42 @@
+import type { AddressInfo } from 'node:net'
+import http from 'node:http'
+import { afterAll, beforeAll, beforeEach } from 'vitest'
+
+/**
+ * A local HTTP server for the tests of a file, started before its tests and
+ * closed after them.
+ */
+export interface StubServer {
+  /** `http://127.0.0.1:<port>`, once the server is listening. */
+  origin: string
+  /** The path and query of every request of the current test, in order. */
+  requested: string[]
+}
+
+/**
+ * Starts a stub server that answers every request with `handler`.
+ *
+ * @param handler - Writes the response to a request
+ * @returns The server, whose `origin` is set once the tests start
+ */
+export function useStubServer(handler: http.RequestListener): StubServer {
+  const stub: StubServer = { origin: '', requested: [] }
+  const server = http.createServer((req, res) => {
+    stub.requested.push(req.url ?? '')
+    handler(req, res)
+  })
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    stub.origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+  beforeEach(() => {
+    stub.requested.length = 0
+  })
+  afterAll(() => {
+    server.closeAllConnections()
+    server.close()
+  })
+
+  return stub
+}